@@ -0,0 +1,96 @@
+import { context, createContextKey } from '@opentelemetry/api';
+import type { Attributes, Context } from '@opentelemetry/api';
+
+/**
+ * Properties that correlate every span of a run, from the metadata of its
+ * RunnableConfig or from withAssociationProperties around the invocation.
+ * Keys may be given in snake_case or camelCase.
+ */
+export interface AssociationProperties {
+  session_id?: string;
+  user_id?: string;
+  conversation_id?: string;
+  [key: string]: unknown;
+}
+
+export const Association_Attributes = {
+  SESSION_ID: 'session.id',
+  USER_ID: 'user.id',
+  GEN_AI_CONVERSATION_ID: 'gen_ai.conversation.id',
+  METADATA_PREFIX: 'langchain.metadata.',
+  TAGS: 'langchain.tags',
+};
+
+// Metadata keys recognised for each correlation attribute, the first present wins
+const CORRELATION_KEYS: Record<string, string[]> = {
+  [Association_Attributes.SESSION_ID]: ['session.id', 'session_id', 'sessionId'],
+  [Association_Attributes.USER_ID]: ['user.id', 'user_id', 'userId'],
+  // LangGraph threads are conversations, so their id is used when no conversation id is set
+  [Association_Attributes.GEN_AI_CONVERSATION_ID]: [
+    'gen_ai.conversation.id', 'conversation_id', 'conversationId', 'thread_id',
+  ],
+};
+
+export const ASSOCIATION_PROPERTIES_KEY = createContextKey('langchain association properties');
+
+/**
+ * The association properties in a context
+ */
+export function getAssociationProperties(ctx: Context = context.active()): Record<string, any> {
+  return (ctx.getValue(ASSOCIATION_PROPERTIES_KEY) as Record<string, any> | undefined) ?? {};
+}
+
+/**
+ * Run a function with association properties set, so every LangChain run it
+ * starts, and their descendants, carry them. Properties nest, inner values win.
+ */
+export function withAssociationProperties<T>(properties: AssociationProperties, fn: () => T): T {
+  const ctx = context.active();
+  const merged = { ...getAssociationProperties(ctx) };
+  for (const [key, value] of Object.entries(properties)) {
+    if (value !== undefined && value !== null) {
+      merged[key] = value;
+    }
+  }
+  return context.with(ctx.setValue(ASSOCIATION_PROPERTIES_KEY, merged), fn);
+}
+
+function _attributeValue(value: unknown): string | number | boolean | string[] | undefined {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Span attributes for the correlation ids, the allow-listed metadata keys and
+ * the allow-listed tags of a run
+ */
+export function associationAttributes(
+  properties: Record<string, any>,
+  metadataKeys: string[],
+  tags: string[] | undefined,
+  allowedTags: string[]
+): Attributes {
+  const attributes: Attributes = {};
+  for (const [attribute, keys] of Object.entries(CORRELATION_KEYS)) {
+    const key = keys.find((k) => properties[k] !== undefined && properties[k] !== null);
+    if (key) {
+      attributes[attribute] = String(properties[key]);
+    }
+  }
+  for (const key of metadataKeys) {
+    const value = _attributeValue(properties[key]);
+    if (value !== undefined) {
+      attributes[`${Association_Attributes.METADATA_PREFIX}${key}`] = value;
+    }
+  }
+  const recordedTags = (tags ?? []).filter((tag) => allowedTags.includes('*') || allowedTags.includes(tag));
+  if (recordedTags.length > 0) {
+    attributes[Association_Attributes.TAGS] = [...new Set(recordedTags)];
+  }
+  return attributes;
+}
@@ -1,157 +1,539 @@
-import { Span, SpanKind, Tracer, SpanStatusCode } from '@opentelemetry/api';
-import { context, trace } from '@opentelemetry/api';
-import { GenAIOperationValues, Span_Attributes } from './span-attributes.js';
+import { Attributes, Link, Span, SpanKind, Tracer, SpanStatusCode } from '@opentelemetry/api';
+import { context, createContextKey, diag, propagation, trace } from '@opentelemetry/api';
+import type { Context, DiagLogger } from '@opentelemetry/api';
+import { GenAIOperationValues, Latest_Semconv_Attributes, Span_Attributes } from './span-attributes.js';
 import { Serialized } from '@langchain/core/load/serializable';
 import { ChainValues } from '@langchain/core/utils/types';
-import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
-import { LLMResult } from '@langchain/core/outputs';
+import { BaseCallbackHandler, HandleLLMNewTokenCallbackFields, NewTokenIndices } from '@langchain/core/callbacks/base';
+import { ChatGenerationChunk, Generation, GenerationChunk, LLMResult } from '@langchain/core/outputs';
+import { AIMessageChunk } from '@langchain/core/messages';
 import { AgentAction, AgentFinish } from '@langchain/core/agents';
+import { DocumentInterface } from '@langchain/core/documents';
+import { GenAIMetrics, InternalErrorTypeValues } from './metrics.js';
+import { GenAIEventEmitter } from './events.js';
+import { Sanitizer } from './redaction.js';
+import { Serializer } from './serialization.js';
+import { getPromptTemplateInfo, isPromptTemplateRun } from './prompts.js';
+import {
+  getParserSchemaName, getRequestedSchemaName, isOutputParserRun, isStructuredOutputRun,
+} from './structured-output.js';
+import { ErrorTypeValues, classifyError, getRetryAttempt, httpErrorAttributes, isFallbacksRun, isRetryRun } from './errors.js';
+import type { PromptTemplateInfo } from './prompts.js';
+import type { ContentFormat } from './serialization.js';
+import type { EmbeddingsUsage } from './embeddings.js';
+import { RunAbortReason, RunRegistry, SpanHolder } from './run-registry.js';
+import { claimRunContextSlot } from './context-bridge.js';
+import { ProviderRegistry } from './providers.js';
+import type { LLMRequestInfo, ProviderAdapter } from './providers.js';
+import { CostCalculator } from './cost.js';
+import type { TokenUsage } from './cost.js';
+import {
+  classifyToolError,
+  getToolCallFromInput,
+  getToolArgsSchema,
+  getToolInfo,
+  getToolMessageInfo,
+  getToolType,
+} from './tools.js';
+import type { ToolInfo } from './tools.js';
+import { RunFilter } from './filtering.js';
+import type { RunFilterInfo } from './filtering.js';
+import type { RunInfo, SpanHooks } from './hooks.js';
+import { DEFAULT_SPAN_NAME_TEMPLATES } from './config.js';
+import {
+  getConditionalEdgeSource,
+  getEdgeDestinations,
+  getLangGraphNodeInfo,
+  InterruptedRunStore,
+  isGraphInterrupt,
+  isLangGraphRun,
+} from './langgraph.js';
+import type { RunType, SemconvStability } from './config.js';
+import { ASSOCIATION_PROPERTIES_KEY, associationAttributes, getAssociationProperties } from './association.js';
 
 // Define types to match LangChain's TypeScript interfaces
 type BaseMessage = any;
 
-const ASSOCIATION_PROPERTIES_KEY = Symbol('association_properties');
 const _SUPPRESS_INSTRUMENTATION_KEY = Symbol('suppress-instrumentation');
+// Unpriced models remembered so their warning is not repeated, forgotten all at once when full
+const MAX_UNPRICED_MODELS = 100;
+// The tracer of the run a context belongs to, for the embeddings calls made inside it
+const RUN_TRACER_KEY = createContextKey('langchain run tracer');
 
-class SpanHolder {
-  span: Span;
-  children: string[];
-  startTime: number;
-  requestModel?: string;
-
-  constructor(span: Span, children: string[] = [], requestModel?: string) {
-    this.span = span;
-    this.children = children;
-    this.startTime = Date.now();
-    this.requestModel = requestModel;
+function _setSpanAttribute(span: Span, name: string, value: any): void {
+  if (value !== undefined && value !== null && value !== '') {
+    span.setAttribute(name, value);
   }
 }
 
-function _setRequestParams(span: Span, kwargs: Record<string, any>, spanHolder: SpanHolder): void {
-  let model: string | undefined;
+function _getRetrieverParams(
+  retriever: Serialized,
+  metadata: Record<string, unknown> = {}
+): { vectorStore?: string; topK?: number; searchType?: string } {
+  const kwargs = (retriever as any).kwargs || {};
+  let vectorStore = metadata.ls_vector_store_provider as string | undefined;
 
-  // Try to find the model name from various possible locations
-  for (const modelTag of ['model_id', 'base_model_id']) {
-    if (kwargs[modelTag] !== undefined) {
-      spanHolder.requestModel = kwargs[modelTag];
-      model = kwargs[modelTag];
-      break;
-    } else if ((kwargs.invocation_params || {})[modelTag] !== undefined) {
-      spanHolder.requestModel = kwargs.invocation_params[modelTag];
-      model = kwargs.invocation_params[modelTag];
-      break;
+  // VectorStoreRetriever namespaces its id with the vector store type
+  if (!vectorStore && retriever.id && retriever.id[retriever.id.length - 1] === 'VectorStoreRetriever') {
+    vectorStore = retriever.id[retriever.id.length - 2];
+  }
+
+  return {
+    vectorStore: vectorStore ?? kwargs.vectorStore?.id?.[kwargs.vectorStore.id.length - 1],
+    topK: kwargs.k ?? metadata.k ?? metadata.ls_k,
+    searchType: kwargs.searchType ?? kwargs.search_type ?? metadata.search_type,
+  };
+}
+
+function _getDocumentScore(document: DocumentInterface): number | undefined {
+  const metadata = document.metadata || {};
+  for (const key of ['score', 'relevance_score', '_score', 'similarity', '_distance', 'distance']) {
+    if (typeof metadata[key] === 'number') {
+      return metadata[key];
     }
   }
+  return undefined;
+}
 
-  if (spanHolder.requestModel === undefined) {
-    model = undefined;
+/**
+ * The tool call deltas of a streamed chunk without its text, or undefined when it has none
+ */
+function _toolCallChunk(chunk: GenerationChunk | undefined): ChatGenerationChunk | undefined {
+  const message = chunk instanceof ChatGenerationChunk ? chunk.message as AIMessageChunk : undefined;
+  if (!message?.tool_call_chunks?.length) {
+    return undefined;
   }
+  return new ChatGenerationChunk({
+    text: '',
+    message: new AIMessageChunk({ content: '', id: message.id, tool_call_chunks: message.tool_call_chunks }),
+  });
+}
 
-  _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_MODEL, model);
-  _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_MODEL, model);
+/**
+ * Serialize a callback payload for debug logging, tolerating cycles
+ */
+function _debugStringify(payload: unknown): string {
+  const seen = new WeakSet<object>();
+  try {
+    return JSON.stringify(payload, (_key, value) => {
+      if (typeof value === 'object' && value !== null) {
+        if (seen.has(value)) {
+          return '[Circular]';
+        }
+        seen.add(value);
+      }
+      return typeof value === 'bigint' ? value.toString() : value;
+    });
+  } catch (error) {
+    return `[unserializable: ${(error as Error).message}]`;
+  }
+}
 
-  const params = kwargs.invocation_params 
-    ? (kwargs.invocation_params.params || kwargs.invocation_params) 
-    : kwargs;
+export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
+  public tracer: Tracer;
+  public metrics?: GenAIMetrics;
+  public events?: GenAIEventEmitter;
+  // Prompts and completions may contain sensitive data, so content capture is opt-in
+  public captureMessageContent = false;
+  // Applied to every payload the handler records, on spans and on events
+  public sanitizer: Sanitizer = new Sanitizer();
+  // Turns captured payloads and metadata values into JSON
+  public serializer: Serializer = new Serializer();
+  public contentFormat: ContentFormat = 'json';
+  // Template variables may hold user data, so recording them is opt-in
+  public capturePromptVariables = false;
+  // Document ids, sources and scores are only recorded when enabled
+  public captureRetrievalDocuments = false;
+  // Schemas of bound tools can be large, so they are only recorded when enabled
+  public captureToolDefinitions = false;
+  // Span events per streamed chunk, capped per span and spaced by a minimum interval
+  public recordChunkEvents = false;
+  public maxChunkEventsPerSpan = 100;
+  public chunkEventMinIntervalMs = 0;
+  // Association properties copied into OpenTelemetry baggage for downstream services
+  public baggageKeys: string[] = [];
+  // Metadata keys and tags recorded on every span of a run, next to the session, user and conversation ids
+  public associationMetadataKeys: string[] = [];
+  public associationTags: string[] = [];
+  // Picks the tracer for a top-level run from its metadata, e.g. per tenant
+  public tracerResolver?: (metadata: Record<string, any>) => Tracer | undefined;
+  // Run types without a span of their own, their children attach to the nearest traced ancestor
+  public traceRunTypes: Partial<Record<RunType, boolean>> = {};
+  // Internal runnables, include and exclude rules and per-run detail levels
+  public runFilter: RunFilter = new RunFilter();
+  // User hooks that enrich spans as runs start, end and fail
+  public hooks: SpanHooks = {};
+  public spanNameTemplates: Record<RunType, string> = { ...DEFAULT_SPAN_NAME_TEMPLATES };
+  public semconvStability: SemconvStability = 'default';
+  // Internal diagnostics, and the raw callback payloads when debugCallbackPayloads is on
+  public diagLogger: DiagLogger = diag.createComponentLogger({ namespace: 'langchain-callback-handler' });
+  public debugCallbackPayloads = false;
+  // Maps invocation params and responses of each integration to GenAI attributes
+  public providers: ProviderRegistry = new ProviderRegistry();
+  // Turns token usage into an estimated cost, unset when cost estimation is off
+  public costCalculator?: CostCalculator = new CostCalculator();
+  public tenantMetadataKey = 'tenant_id';
+  // Models missing from the price table that were already warned about
+  private unpricedModels = new Set<string>();
+  public spanMapping: RunRegistry = new RunRegistry();
+  // Interrupted LangGraph runs, linked from the runs that resume them
+  public interruptedRuns: InterruptedRunStore = new InterruptedRunStore();
+  name = "opentelemetry-callback-handler";
 
-  _setSpanAttribute(
-    span,
-    Span_Attributes.GEN_AI_REQUEST_MAX_TOKENS,
-    params.max_tokens || params.max_new_tokens
-  );
+  constructor(tracer: Tracer, metrics?: GenAIMetrics) {
+    super();
+    // Run callbacks inline so spans are started in the async context of the run
+    this.awaitHandlers = true;
+    this.tracer = tracer;
+    this.metrics = metrics;
+  }
 
-  _setSpanAttribute(
-    span,
-    Span_Attributes.GEN_AI_REQUEST_TEMPERATURE,
-    params.temperature
-  );
+  /**
+   * Swap the tracer used for new runs. Runs already in flight keep the tracer
+   * they started with, so their descendants stay in the same trace pipeline.
+   */
+  public setTracer(tracer: Tracer): void {
+    this.tracer = tracer;
+  }
 
-  _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_TOP_P, params.top_p);
-}
+  /**
+   * Whether a run gets a span, from the traced run types and the run filter
+   */
+  private _shouldTrace(
+    runType: RunType,
+    run: Omit<RunFilterInfo, 'runType' | 'topLevel'> & { parentRunId?: string }
+  ): boolean {
+    if (this.traceRunTypes[runType] === false) {
+      return false;
+    }
+    const { parentRunId, ...info } = run;
+    const tracedParentRunId = this.spanMapping.resolveParent(parentRunId);
+    const topLevel = !tracedParentRunId || !this.spanMapping.has(tracedParentRunId);
+    return this.runFilter.shouldTrace({ ...info, runType, topLevel });
+  }
 
-function _setSpanAttribute(span: Span, name: string, value: any): void {
-  if (value !== undefined && value !== null && value !== '') {
-    span.setAttribute(name, value);
+  private _spanName(runType: RunType, name: string, operation: string = runType): string {
+    return this.spanNameTemplates[runType]
+      .replace(/\{operation\}/g, operation)
+      .replace(/\{name\}/g, name);
   }
-}
 
-function _sanitizeMetadataValue(value: any): any {
-  if (value === null || value === undefined) {
-    return null;
+  /**
+   * Set an attribute under the name of the configured semantic conventions
+   */
+  private _setAttribute(span: Span, name: string, value: any): void {
+    _setSpanAttribute(span, this._attributeName(name), value);
   }
 
-  if (typeof value === 'boolean' || typeof value === 'string' || 
-      typeof value === 'number' || Buffer.isBuffer(value)) {
-    return value;
+  private _attributeName(name: string): string {
+    return this.semconvStability === 'gen_ai_latest_experimental'
+      ? Latest_Semconv_Attributes[name] ?? name
+      : name;
   }
 
-  if (Array.isArray(value)) {
-    return value.map(v => String(_sanitizeMetadataValue(v)));
+  private _resolveTracer(parentTracer: Tracer | undefined, metadata: Record<string, any>): Tracer {
+    if (parentTracer) {
+      return parentTracer;
+    }
+    if (this.tracerResolver) {
+      try {
+        return this.tracerResolver(metadata) ?? this.tracer;
+      } catch (error) {
+        this._reportInternalError(
+          InternalErrorTypeValues.TRACER_RESOLUTION_ERROR,
+          `Tracer provider resolver failed, using the default tracer: ${(error as Error).message}`
+        );
+        return this.tracer;
+      }
+    }
+    return this.tracer;
   }
 
-  return String(value);
-}
+  /**
+   * Log an internal failure and count it, so dropped data is visible
+   */
+  private _reportInternalError(errorType: InternalErrorTypeValues, message: string): void {
+    this.diagLogger.warn(message);
+    this.metrics?.recordInternalError(errorType);
+  }
 
-export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
-  public tracer: Tracer;
-  public spanMapping: Map<string, SpanHolder> = new Map();
-  name = "opentelemetry-callback-handler";
+  /**
+   * Dump the raw arguments of a callback when payload debugging is on. The
+   * payloads are not redacted, so this is meant for troubleshooting only.
+   */
+  private _debugPayload(callback: string, payload: Record<string, unknown>): void {
+    if (this.debugCallbackPayloads) {
+      this.diagLogger.debug(`${callback} ${_debugStringify(payload)}`);
+    }
+  }
 
-  constructor(tracer: Tracer) {
-    console.log("init custom callback handler");
-    super();
-    this.tracer = tracer;
+  /**
+   * Look up the span holder of a run that is ending. Runs that were not
+   * traced are released quietly, any other missing run is reported.
+   */
+  private _getEndingRun(runId: string, callback: string): SpanHolder | undefined {
+    if (this.spanMapping.release(runId)) {
+      return undefined;
+    }
+    const spanHolder = this.spanMapping.get(runId);
+    if (!spanHolder) {
+      this._reportInternalError(
+        InternalErrorTypeValues.SPAN_NOT_FOUND,
+        `${callback}: no span found for run ${runId}`
+      );
+    }
+    return spanHolder;
   }
 
-  private _endSpan(span: Span, runId: string): void {
+  private _endSpan(span: Span, runId: string, errorType?: string, output?: unknown): void {
     const spanHolder = this.spanMapping.get(runId);
-    if (spanHolder) {
-      for (const childId of spanHolder.children) {
-        const childSpanHolder = this.spanMapping.get(childId);
-        if (childSpanHolder) {
-          childSpanHolder.span.end();
+    if (!spanHolder || spanHolder.ended) {
+      return;
+    }
+    this._runEndHook(spanHolder, output);
+    if (errorType === undefined) {
+      this._endAttempt(spanHolder);
+    }
+    if (spanHolder.retryRun) {
+      span.setAttribute(Span_Attributes.LANGCHAIN_RETRY_ATTEMPTS, spanHolder.attemptCount);
+    }
+
+    // Finished children are already removed, anything left never reported its end
+    for (const childId of [...spanHolder.children]) {
+      this.spanMapping.abort(childId, RunAbortReason.PARENT_ENDED);
+    }
+
+    this._recordDuration(spanHolder, errorType);
+    span.end();
+    this.spanMapping.complete(runId);
+  }
+
+  /**
+   * Run a user hook. Hooks must never break the run or the handler, so their
+   * exceptions, thrown or rejected, are reported and dropped.
+   */
+  private _runHook(hook: string, call: () => unknown): void {
+    const report = (error: unknown) => this._reportInternalError(
+      InternalErrorTypeValues.HOOK_ERROR,
+      `${hook} hook failed: ${(error as Error)?.message ?? String(error)}`
+    );
+    try {
+      const result = call() as any;
+      if (result && typeof result.then === 'function') {
+        result.then(undefined, report);
+      }
+    } catch (error) {
+      report(error);
+    }
+  }
+
+  /**
+   * Remember what a run is about and let the onSpanStart hook enrich its span
+   */
+  private _startRun(spanHolder: SpanHolder, runInfo: RunInfo): void {
+    spanHolder.runInfo = runInfo;
+    const onSpanStart = this.hooks.onSpanStart;
+    if (onSpanStart) {
+      this._runHook('onSpanStart', () => onSpanStart(spanHolder.span, runInfo));
+    }
+  }
+
+  private _runEndHook(spanHolder: SpanHolder, output: unknown): void {
+    const onSpanEnd = this.hooks.onSpanEnd;
+    const runInfo = spanHolder.runInfo;
+    if (onSpanEnd && runInfo) {
+      this._runHook('onSpanEnd', () => onSpanEnd(spanHolder.span, runInfo, output));
+    }
+  }
+
+  /**
+   * Record captured content on a span after redaction and truncation
+   */
+  private _setContentAttribute(span: Span, name: string, value: any): void {
+    span.setAttributes(this._contentAttributes(name, value));
+  }
+
+  /**
+   * Captured content as attributes after redaction and truncation, as one
+   * JSON attribute or as one attribute per leaf
+   */
+  private _contentAttributes(name: string, value: any): Attributes {
+    const attributes: Attributes = {};
+    if (value === undefined || value === null) {
+      return attributes;
+    }
+    let content: string;
+    try {
+      if (this.contentFormat === 'flattened' && typeof value === 'object') {
+        const payload = this.sanitizer.sanitizeValue(this.serializer.toJSONValue(value), name);
+        for (const [key, leaf] of Object.entries(this.serializer.flatten(payload))) {
+          if (leaf !== '') {
+            attributes[key === '' ? name : `${name}.${key}`] = leaf;
+          }
         }
+        return attributes;
       }
-      span.end();
+      content = this.serializer.stringify(value);
+    } catch (error) {
+      this._reportInternalError(
+        InternalErrorTypeValues.SERIALIZATION_ERROR,
+        `Could not serialize ${name}: ${(error as Error).message}`
+      );
+      content = String(value);
+    }
+    const sanitized = this.sanitizer.sanitize(content, name);
+    if (sanitized !== '') {
+      attributes[name] = sanitized;
+    }
+    return attributes;
+  }
+
+  /**
+   * Estimate the cost of a model call and add it to the total of its root run
+   */
+  private _recordCost(spanHolder: SpanHolder, usage: TokenUsage): void {
+    if (!this.costCalculator || (usage.inputTokens === undefined && usage.outputTokens === undefined)) {
+      return;
+    }
+    const model = spanHolder.responseModel ??
+      (spanHolder.requestModel !== 'unknown' ? spanHolder.requestModel : undefined) ?? 'unknown';
+    const cost = this.costCalculator.estimate(model, usage);
+    if (cost === undefined) {
+      // Every unpriced call is counted, the warning is logged once per model
+      this.metrics?.recordInternalError(InternalErrorTypeValues.UNKNOWN_MODEL_PRICE);
+      if (!this.unpricedModels.has(model)) {
+        if (this.unpricedModels.size >= MAX_UNPRICED_MODELS) {
+          this.unpricedModels.clear();
+        }
+        this.unpricedModels.add(model);
+        this.diagLogger.warn(`No price for model "${model}", its cost is not estimated`);
+      }
+      return;
+    }
+    spanHolder.span.setAttribute(Span_Attributes.GEN_AI_USAGE_COST, cost);
+
+    const attributes = this._metricAttributes(spanHolder);
+    const associationProperties =
+      spanHolder.context ? getAssociationProperties(spanHolder.context) : undefined;
+    const tenant = associationProperties?.[this.tenantMetadataKey];
+    if (tenant !== undefined) {
+      attributes['tenant.id'] = String(tenant);
+    }
+    this.metrics?.recordCost(cost, attributes);
+
+    let root = spanHolder;
+    while (root.parentRunId && this.spanMapping.has(root.parentRunId)) {
+      root = this.spanMapping.get(root.parentRunId)!;
+    }
+    if (root !== spanHolder) {
+      root.totalCost += cost;
+      root.span.setAttribute(Span_Attributes.GEN_AI_USAGE_TOTAL_COST, root.totalCost);
+    }
+  }
+
+  private _metricAttributes(spanHolder: SpanHolder, errorType?: string): Attributes {
+    const attributes: Attributes = {};
+    if (spanHolder.operationName) {
+      attributes[Span_Attributes.GEN_AI_OPERATION_NAME] = spanHolder.operationName;
+    }
+    if (spanHolder.system) {
+      attributes[this._attributeName(Span_Attributes.GEN_AI_SYSTEM)] = spanHolder.system;
+    }
+    if (spanHolder.requestModel && spanHolder.requestModel !== 'unknown') {
+      attributes[Span_Attributes.GEN_AI_REQUEST_MODEL] = spanHolder.requestModel;
+    }
+    if (spanHolder.responseModel) {
+      attributes[Span_Attributes.GEN_AI_RESPONSE_MODEL] = spanHolder.responseModel;
+    }
+    if (errorType) {
+      attributes[Span_Attributes.ERROR_TYPE] = errorType;
+    }
+    return attributes;
+  }
+
+  private _recordDuration(spanHolder: SpanHolder, errorType?: string): void {
+    if (!this.metrics || !spanHolder.runType) {
+      return;
+    }
+
+    const seconds = (Date.now() - spanHolder.startTime) / 1000;
+    const attributes = this._metricAttributes(spanHolder, errorType);
+
+    switch (spanHolder.runType) {
+      case 'llm':
+      case 'embeddings':
+        this.metrics.recordOperationDuration(seconds, attributes);
+        break;
+      case 'tool':
+        this.metrics.recordToolDuration(seconds, attributes);
+        break;
+      case 'chain':
+        this.metrics.recordChainDuration(seconds, attributes);
+        break;
     }
   }
 
+  /**
+   * Copy allow-listed association properties into the baggage of a run context
+   */
+  private _propagateToBaggage(ctx: Context, associationProperties: Record<string, any>): Context {
+    if (this.baggageKeys.length === 0) {
+      return ctx;
+    }
+
+    let baggage = propagation.getBaggage(ctx) ?? propagation.createBaggage();
+    let changed = false;
+    for (const key of this.baggageKeys) {
+      const value = associationProperties[key];
+      if (value !== undefined && value !== null) {
+        baggage = baggage.setEntry(key, { value: Array.isArray(value) ? value.join(',') : String(value) });
+        changed = true;
+      }
+    }
+    return changed ? propagation.setBaggage(ctx, baggage) : ctx;
+  }
+
   private _createSpan(
     runId: string,
     parentRunId: string | undefined,
     spanName: string,
     kind: SpanKind = SpanKind.INTERNAL,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    links?: Link[],
+    tags?: string[]
   ): Span {
     metadata = metadata || {};
+    parentRunId = this.spanMapping.resolveParent(parentRunId);
 
-    if (metadata !== null) {
-      const currentAssociationProperties = context.active().getValue(ASSOCIATION_PROPERTIES_KEY) || {};
-      const sanitizedMetadata: Record<string, any> = {};
-      
-      for (const [k, v] of Object.entries(metadata)) {
-        if (v !== null && v !== undefined) {
-          sanitizedMetadata[k] = _sanitizeMetadataValue(v);
-        }
+    // Children start from the parent run's context, top-level runs from the caller's
+    const parentHolder = parentRunId ? this.spanMapping.get(parentRunId) : undefined;
+    const parentContext = parentHolder?.context ?? context.active();
+    const tracer = this._resolveTracer(parentHolder?.tracer, metadata);
+
+    const currentAssociationProperties = getAssociationProperties(parentContext);
+    const sanitizedMetadata: Record<string, any> = {};
+
+    for (const [k, v] of Object.entries(metadata)) {
+      if (v !== null && v !== undefined) {
+        sanitizedMetadata[k] = this.serializer.toAttributeValue(v);
       }
-      
-      context.with(
-        context.active().setValue(
-          ASSOCIATION_PROPERTIES_KEY,
-          { ...currentAssociationProperties, ...sanitizedMetadata }
-        ),
-        () => {}
-      );
     }
+    const associationProperties = { ...currentAssociationProperties, ...sanitizedMetadata };
 
-    let span: Span;
-    if (parentRunId && this.spanMapping.has(parentRunId)) {
-      const parentSpan = this.spanMapping.get(parentRunId)!.span;
-      const ctx = trace.setSpan(context.active(), parentSpan);
-      span = this.tracer.startSpan(spanName, { kind }, ctx);
-    } else {
-      span = this.tracer.startSpan(spanName, { kind });
-    }
+    // Set at start so samplers can filter on them
+    const attributes = associationAttributes(
+      associationProperties, this.associationMetadataKeys, tags, this.associationTags
+    );
+    const span = tracer.startSpan(spanName, { kind, links, attributes }, parentContext);
+    const runContext = this._propagateToBaggage(
+      trace.setSpan(parentContext, span)
+        .setValue(ASSOCIATION_PROPERTIES_KEY, associationProperties)
+        .setValue(RUN_TRACER_KEY, tracer),
+      associationProperties
+    );
+
+    // Make the span active for the work the runnable performs after this callback
+    claimRunContextSlot(runContext, () => this.spanMapping.abort(runId, RunAbortReason.CANCELLED));
 
     let modelId = 'unknown';
     
@@ -163,15 +545,67 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
       }
     }
 
-    this.spanMapping.set(runId, new SpanHolder(span, [], modelId));
+    const spanHolder = new SpanHolder(span, [], modelId);
+    spanHolder.parentRunId = parentRunId;
+    spanHolder.context = runContext;
+    spanHolder.tracer = tracer;
+    this.spanMapping.set(runId, spanHolder);
 
     if (parentRunId && this.spanMapping.has(parentRunId)) {
       this.spanMapping.get(parentRunId)!.children.push(runId);
     }
+    this._startAttempt(spanHolder, parentHolder, tags);
 
     return span;
   }
 
+  /**
+   * Number the child runs of retry and fallbacks runs as attempts. The
+   * backoff of a retry is the time since the previous attempt ended.
+   */
+  private _startAttempt(spanHolder: SpanHolder, parentHolder: SpanHolder | undefined, tags?: string[]): void {
+    if (parentHolder?.retryRun) {
+      const attempt = getRetryAttempt(tags) ?? parentHolder.attemptCount + 1;
+      parentHolder.attemptCount = Math.max(parentHolder.attemptCount, attempt);
+      spanHolder.retryAttempt = attempt;
+      spanHolder.span.setAttribute(Span_Attributes.LANGCHAIN_RETRY_ATTEMPT, attempt);
+      if (parentHolder.lastAttemptEndTime !== undefined) {
+        spanHolder.retryBackoffMs = Math.max(spanHolder.startTime - parentHolder.lastAttemptEndTime, 0);
+        spanHolder.span.setAttribute(Span_Attributes.LANGCHAIN_RETRY_BACKOFF_MS, spanHolder.retryBackoffMs);
+      }
+    } else if (parentHolder?.fallbacksRun) {
+      spanHolder.fallbackIndex = parentHolder.attemptCount++;
+      spanHolder.span.setAttribute(Span_Attributes.LANGCHAIN_FALLBACK_INDEX, spanHolder.fallbackIndex);
+    }
+  }
+
+  /**
+   * Record a finished retry attempt as an event on the retry run, or the
+   * alternative that served a fallbacks run on its span
+   */
+  private _endAttempt(spanHolder: SpanHolder, errorAttributes?: Attributes): void {
+    const parentHolder = spanHolder.parentRunId ? this.spanMapping.get(spanHolder.parentRunId) : undefined;
+    if (!parentHolder) {
+      return;
+    }
+    if (spanHolder.retryAttempt !== undefined) {
+      const attributes: Attributes = { [Span_Attributes.LANGCHAIN_RETRY_ATTEMPT]: spanHolder.retryAttempt };
+      if (spanHolder.retryBackoffMs !== undefined) {
+        attributes[Span_Attributes.LANGCHAIN_RETRY_BACKOFF_MS] = spanHolder.retryBackoffMs;
+      }
+      parentHolder.span.addEvent('langchain.retry.attempt', { ...attributes, ...errorAttributes });
+      parentHolder.lastAttemptEndTime = Date.now();
+    } else if (spanHolder.fallbackIndex !== undefined && !errorAttributes) {
+      const parentSpan = parentHolder.span;
+      parentSpan.setAttribute(Span_Attributes.LANGCHAIN_FALLBACK_INDEX, spanHolder.fallbackIndex);
+      _setSpanAttribute(parentSpan, Span_Attributes.LANGCHAIN_FALLBACK_RUN, spanHolder.runInfo?.name);
+      if (spanHolder.runType === 'llm') {
+        _setSpanAttribute(parentSpan, Span_Attributes.LANGCHAIN_FALLBACK_MODEL, spanHolder.responseModel ??
+          (spanHolder.requestModel !== 'unknown' ? spanHolder.requestModel : undefined));
+      }
+    }
+  }
+
   private _getNameFromCallback(
     serialized: Record<string, any>,
     tags?: string[],
@@ -193,30 +627,217 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     return 'unknown';
   }
 
+  /**
+   * Resolve the provider adapter of a model run and parse its request parameters
+   */
+  private _parseModelRequest(
+    llm: Serialized,
+    extraParams: Record<string, any> = {},
+    metadata: Record<string, any> = {}
+  ): { adapter?: ProviderAdapter; system?: string; request: LLMRequestInfo } {
+    const model = this.providers.describe(llm, extraParams, metadata);
+    try {
+      const adapter = this.providers.resolve(model);
+      return { adapter, system: this.providers.system(model, adapter), request: this.providers.parseRequest(model, adapter) };
+    } catch (error) {
+      this._reportInternalError(
+        InternalErrorTypeValues.PROVIDER_ADAPTER_ERROR,
+        `Could not parse model request parameters: ${(error as Error).message}`
+      );
+      return { system: this.providers.system(model), request: {} };
+    }
+  }
+
+  private _setRequestAttributes(
+    span: Span,
+    spanHolder: SpanHolder,
+    parsed: { adapter?: ProviderAdapter; system?: string; request: LLMRequestInfo }
+  ): void {
+    const request = parsed.request;
+    spanHolder.providerAdapter = parsed.adapter;
+    spanHolder.system = parsed.system;
+    if (request.model) {
+      spanHolder.requestModel = request.model;
+    }
+
+    this._setAttribute(span, Span_Attributes.GEN_AI_SYSTEM, parsed.system);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_MODEL, request.model);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_MAX_TOKENS, request.maxTokens);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_TEMPERATURE, request.temperature);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_TOP_P, request.topP);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_TOP_K, request.topK);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_STOP_SEQUENCES, request.stopSequences);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_FREQUENCY_PENALTY, request.frequencyPenalty);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_PRESENCE_PENALTY, request.presencePenalty);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_SEED, request.seed);
+    if (this.captureToolDefinitions) {
+      this._setContentAttribute(span, Span_Attributes.GEN_AI_TOOL_DEFINITIONS, request.toolDefinitions);
+    }
+  }
+
+  /**
+   * Record the tool calls the model asked for, so the tool spans that execute
+   * them can be matched through gen_ai.tool.call.id
+   */
+  private _recordToolCalls(span: Span, generations: Generation[][]): void {
+    const toolCalls = generations
+      .flat()
+      .flatMap((generation) => (generation as any).message?.tool_calls ?? []);
+    if (toolCalls.length === 0) {
+      return;
+    }
+
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_TOOL_CALL_IDS, toolCalls.map((call: any) => call.id ?? ''));
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_TOOL_CALL_NAMES, toolCalls.map((call: any) => call.name ?? ''));
+    for (const toolCall of toolCalls) {
+      const attributes: Attributes = { [Span_Attributes.GEN_AI_TOOL_NAME]: toolCall.name };
+      if (toolCall.id) {
+        attributes[Span_Attributes.GEN_AI_TOOL_CALL_ID] = toolCall.id;
+      }
+      if (this.captureMessageContent) {
+        attributes[Span_Attributes.GEN_AI_TOOL_CALL_ARGUMENTS] = this.sanitizer.sanitize(
+          typeof toolCall.args === 'string' ? toolCall.args : JSON.stringify(toolCall.args ?? {}),
+          Span_Attributes.GEN_AI_TOOL_CALL_ARGUMENTS
+        );
+      }
+      span.addEvent('gen_ai.tool.call', attributes);
+    }
+  }
+
   private _handleError(
+    callback: string,
     error: Error,
     runId: string,
     parentRunId?: string,
-    kwargs: Record<string, any> = {}
+    kwargs: Record<string, any> = {},
+    errorType: string = classifyError(error) ?? (error.name || error.constructor?.name || '_OTHER')
   ): void {
     if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
       return;
     }
 
-    if (!this.spanMapping.has(runId)) {
+    const spanHolder = this._getEndingRun(runId, callback);
+    if (!spanHolder) {
       return;
     }
 
-    const span = this.spanMapping.get(runId)!.span;
+    const span = spanHolder.span;
     span.setStatus({
       code: SpanStatusCode.ERROR,
       message: error.message
     });
     span.recordException(error);
-    this._endSpan(span, runId);
+    span.setAttribute(Span_Attributes.ERROR_TYPE, errorType);
+    const httpAttributes = httpErrorAttributes(error);
+    span.setAttributes(httpAttributes);
+    const onError = this.hooks.onError;
+    const runInfo = spanHolder.runInfo;
+    if (onError && runInfo) {
+      this._runHook('onError', () => onError(span, runInfo, error));
+    }
+    this._endAttempt(spanHolder, {
+      [Span_Attributes.ERROR_TYPE]: errorType,
+      [Span_Attributes.EXCEPTION_TYPE]: error.constructor?.name || error.name,
+      ...httpAttributes,
+    });
+    this._endSpan(span, runId, errorType);
   }
 
 
+  /**
+   * Trace a call to embedQuery or embedDocuments. Embeddings classes do not
+   * report to callbacks, so the instrumentation's Embeddings patch calls this.
+   */
+  public async handleEmbeddings<T extends number[] | number[][]>(
+    embeddings: Record<string, any>,
+    inputCount: number,
+    call: (usage: EmbeddingsUsage) => Promise<T>
+  ): Promise<T> {
+    const usage: EmbeddingsUsage = {};
+    if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
+      return call(usage);
+    }
+    const model = this.providers.describeEmbeddings(embeddings);
+    // Embeddings calls have no run, the association properties carry the metadata of the enclosing run
+    const traced = this._shouldTrace('embeddings', {
+      name: model.className ?? 'unknown',
+      metadata: getAssociationProperties(),
+    });
+    if (!traced) {
+      return call(usage);
+    }
+
+    let adapter: ProviderAdapter | undefined;
+    let request: LLMRequestInfo = {};
+    try {
+      adapter = this.providers.resolve(model);
+      request = this.providers.parseRequest(model, adapter);
+    } catch (error) {
+      this._reportInternalError(
+        InternalErrorTypeValues.PROVIDER_ADAPTER_ERROR,
+        `Could not parse embeddings parameters: ${(error as Error).message}`
+      );
+    }
+
+    const parentContext = context.active();
+    const associationProperties = getAssociationProperties(parentContext);
+    // Inside a run, the span goes where the run's spans go
+    const parentTracer = parentContext.getValue(RUN_TRACER_KEY) as Tracer | undefined;
+    const tracer = this._resolveTracer(parentTracer, associationProperties);
+    const span = tracer.startSpan(
+      this._spanName('embeddings', request.model ?? model.className ?? 'unknown', GenAIOperationValues.EMBEDDINGS),
+      {
+        kind: SpanKind.CLIENT,
+        attributes: associationAttributes(
+          associationProperties, this.associationMetadataKeys, undefined, this.associationTags
+        ),
+      },
+      parentContext
+    );
+    const spanHolder = new SpanHolder(span, [], request.model);
+    spanHolder.runType = 'embeddings';
+    spanHolder.operationName = GenAIOperationValues.EMBEDDINGS;
+    spanHolder.system = this.providers.system(model, adapter);
+
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, GenAIOperationValues.EMBEDDINGS);
+    this._setAttribute(span, Span_Attributes.GEN_AI_SYSTEM, spanHolder.system);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_REQUEST_MODEL, request.model);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_EMBEDDINGS_INPUT_COUNT, inputCount);
+    this._startRun(spanHolder, {
+      runType: 'embeddings',
+      name: request.model ?? model.className ?? 'unknown',
+      metadata: associationProperties,
+    });
+
+    try {
+      const result = await context.with(trace.setSpan(parentContext, span), () => call(usage));
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_USAGE_INPUT_TOKENS, usage.inputTokens);
+      this.metrics?.recordTokenUsage(usage.inputTokens, undefined, this._metricAttributes(spanHolder));
+      const vector = Array.isArray(result[0]) ? result[0] : result;
+      if (vector.length > 0) {
+        _setSpanAttribute(span, Span_Attributes.GEN_AI_EMBEDDINGS_DIMENSION_COUNT, vector.length);
+      }
+      this._recordDuration(spanHolder);
+      this._runEndHook(spanHolder, result);
+      span.end();
+      return result;
+    } catch (error) {
+      const errorType = classifyError(error) ?? ((error as Error)?.name || '_OTHER');
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error)?.message });
+      span.recordException(error as Error);
+      _setSpanAttribute(span, Span_Attributes.ERROR_TYPE, errorType);
+      span.setAttributes(httpErrorAttributes(error));
+      const onError = this.hooks.onError;
+      if (onError) {
+        this._runHook('onError', () => onError(span, spanHolder.runInfo!, error));
+      }
+      this._recordDuration(spanHolder, errorType);
+      this._runEndHook(spanHolder, undefined);
+      span.end();
+      throw error;
+    }
+  }
+
   async handleChatModelStart(
     llm: Serialized,
     messages: BaseMessage[][],
@@ -230,28 +851,40 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
       return;
     }
+    this._debugPayload('handleChatModelStart', { llm, messages, runId, parentRunId, extraParams, tags, metadata, runName });
 
-    console.log(`🗣️ Starting chat model: \${llm.name}`);
-    
-    // Extract model ID from extra params if available
-    let modelId;
-    if (extraParams?.invocation_params && typeof extraParams.invocation_params === 'object' && 
-        'model_id' in extraParams.invocation_params) {
-      modelId = extraParams.invocation_params.model_id;
+    const runFilterName = runName || this._getNameFromCallback(llm, tags, metadata, {});
+    if (!this._shouldTrace('llm', { parentRunId, name: runFilterName, serialized: llm, tags, metadata })) {
+      this.spanMapping.skip(runId, parentRunId);
+      return;
     }
 
+    const parsed = this._parseModelRequest(llm, extraParams, metadata);
+
     // Determine the name to use
-    let name = llm.name;
-    if (modelId) {
-      name = modelId as string;
-    }
+    const name = parsed.request.model ?? llm.name;
     const span = this._createSpan(runId, parentRunId,
-                                  `\${GenAIOperationValues.CHAT} \${name}`, 
-                                  SpanKind.INTERNAL, metadata);
+                                  this._spanName('llm', name || 'unknown', GenAIOperationValues.CHAT),
+                                  SpanKind.CLIENT, metadata, undefined, tags);
+
+    const spanHolder = this.spanMapping.get(runId)!;
+    spanHolder.runType = 'llm';
+    spanHolder.operationName = GenAIOperationValues.CHAT;
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, GenAIOperationValues.CHAT);
+    this._setRequestAttributes(span, spanHolder, parsed);
+    this._setPromptAttributes(span, this._findPrompt(spanHolder.parentRunId));
+    spanHolder.structuredOutputSchema = getRequestedSchemaName(
+      extraParams?.invocation_params as Record<string, any>, parsed.request.toolDefinitions
+    );
 
-    if (extraParams) {
-      _setRequestParams(span, extraParams, this.spanMapping.get(runId)!);
+    if (this.captureMessageContent && this.events) {
+      for (const messageGroup of messages) {
+        this.events.emitMessages(span, messageGroup, spanHolder.system, this.sanitizer);
+      }
     }
+    this._startRun(spanHolder, {
+      runId, parentRunId, runType: 'llm', name: runFilterName, serialized: llm, inputs: messages, tags, metadata,
+    });
     // return await context.with(context.active().setValue(llm.id, span), async () => {});
   }
 
@@ -268,34 +901,136 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
       return;
     }
+    this._debugPayload('handleLLMStart', { llm, prompt, runId, parentRunId, extraParams, tags, metadata, runName });
 
-    let modelId;
-    
-    if (extraParams?.invocation_params && 
-        (extraParams.invocation_params as any).model_id) {
-      modelId = (extraParams.invocation_params as any).model_id;
+    const runFilterName = runName || this._getNameFromCallback(llm, tags, metadata, {});
+    if (!this._shouldTrace('llm', { parentRunId, name: runFilterName, serialized: llm, tags, metadata })) {
+      this.spanMapping.skip(runId, parentRunId);
+      return;
     }
 
+    const parsed = this._parseModelRequest(llm, extraParams, metadata);
+
     let name = this._getNameFromCallback(llm, undefined, undefined, extraParams || {});
-    if (modelId) {
-      name = modelId;
+    if (parsed.request.model) {
+      name = parsed.request.model;
     }
 
     const span = this._createSpan(
       runId,
       parentRunId,
-      `\${GenAIOperationValues.CHAT} \${name}`,
+      this._spanName('llm', name, 'text_completion'),
       SpanKind.CLIENT,
-      metadata || {}
+      metadata || {},
+      undefined,
+      tags
     );
 
-    _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, GenAIOperationValues.CHAT);
-    _setRequestParams(span, extraParams || {}, this.spanMapping.get(runId)!);
-    _setSpanAttribute(span, Span_Attributes.GEN_AI_SYSTEM, llm.name);
     _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, 'text_completion');
 
+    const spanHolder = this.spanMapping.get(runId)!;
+    spanHolder.runType = 'llm';
+    spanHolder.operationName = 'text_completion';
+    this._setRequestAttributes(span, spanHolder, parsed);
+    this._setPromptAttributes(span, this._findPrompt(spanHolder.parentRunId));
+    spanHolder.structuredOutputSchema = getRequestedSchemaName(
+      extraParams?.invocation_params as Record<string, any>, parsed.request.toolDefinitions
+    );
+
+    if (this.captureMessageContent && this.events) {
+      this.events.emitPrompts(span, prompt, spanHolder.system, this.sanitizer);
+    }
+    this._startRun(spanHolder, {
+      runId, parentRunId, runType: 'llm', name: runFilterName, serialized: llm, inputs: prompt, tags, metadata,
+    });
+  }
+
+  async handleLLMNewToken(
+    token: string,
+    idx: NewTokenIndices,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    fields?: HandleLLMNewTokenCallbackFields
+  ): Promise<any> {
+    if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
+      return;
+    }
+    this._debugPayload('handleLLMNewToken', { token, idx, runId, parentRunId, tags, fields });
 
-    console.log(`🗣️ Starting llmStart`);
+    const spanHolder = this.spanMapping.get(runId);
+    if (!spanHolder) {
+      return;
+    }
+
+    const now = Date.now();
+    if (spanHolder.firstTokenTime === undefined) {
+      spanHolder.firstTokenTime = now;
+      const timeToFirstToken = (now - spanHolder.startTime) / 1000;
+      _setSpanAttribute(spanHolder.span, Span_Attributes.GEN_AI_RESPONSE_TIME_TO_FIRST_TOKEN, timeToFirstToken);
+      this.metrics?.recordTimeToFirstToken(timeToFirstToken, this._metricAttributes(spanHolder));
+    }
+    spanHolder.chunkCount++;
+
+    // Keep the streamed deltas so the final completion can be rebuilt if the end callback lacks it.
+    // Tool calls are recorded either way, the text only when content is captured.
+    const chunk = this.captureMessageContent && this.events ? fields?.chunk : _toolCallChunk(fields?.chunk);
+    if (chunk) {
+      spanHolder.streamedGenerations = spanHolder.streamedGenerations || new Map();
+      const key = `${idx.prompt}:${idx.completion}`;
+      const previous = spanHolder.streamedGenerations.get(key);
+      spanHolder.streamedGenerations.set(
+        key,
+        previous ? previous.concat(chunk as any) : chunk
+      );
+    }
+
+    if (this.recordChunkEvents &&
+        spanHolder.chunkEventCount < this.maxChunkEventsPerSpan &&
+        (spanHolder.lastChunkEventTime === undefined ||
+         now - spanHolder.lastChunkEventTime >= this.chunkEventMinIntervalMs)) {
+      spanHolder.chunkEventCount++;
+      spanHolder.lastChunkEventTime = now;
+
+      const attributes: Attributes = {
+        'gen_ai.response.chunk.index': spanHolder.chunkCount - 1,
+        'gen_ai.response.chunk.choice_index': idx.completion,
+      };
+      if (this.captureMessageContent) {
+        attributes['gen_ai.response.chunk.content'] =
+          this.sanitizer.sanitize(token, 'gen_ai.response.chunk.content');
+      }
+      spanHolder.span.addEvent('gen_ai.content.chunk', attributes);
+    }
+  }
+
+  /**
+   * Prefer the aggregated streamed chunks over empty generations in the final result
+   */
+  private _mergeStreamedGenerations(output: LLMResult, spanHolder: SpanHolder): Generation[][] {
+    const streamed = spanHolder.streamedGenerations;
+    if (!streamed || streamed.size === 0) {
+      return output.generations;
+    }
+
+    const generations = output.generations.map((batch) => [...batch]);
+    for (const [key, chunk] of streamed) {
+      const [promptIdx, completionIdx] = key.split(':').map(Number);
+      generations[promptIdx] = generations[promptIdx] || [];
+      const existing = generations[promptIdx][completionIdx];
+      const existingMessage = (existing as any)?.message;
+      const isEmpty = !existing || (
+        !existing.text &&
+        !existingMessage?.content?.length &&
+        !existingMessage?.tool_calls?.length
+      );
+      if (isEmpty) {
+        generations[promptIdx][completionIdx] = chunk instanceof ChatGenerationChunk
+          ? chunk
+          : new GenerationChunk({ text: chunk.text, generationInfo: chunk.generationInfo });
+      }
+    }
+    return generations;
   }
 
   async handleLLMEnd(
@@ -308,43 +1043,60 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
       return;
     }
+    this._debugPayload('handleLLMEnd', { output, runId, parentRunId, tags, extraParams });
 
-    if (!this.spanMapping.has(runId)) {
+    const spanHolder = this._getEndingRun(runId, 'handleLLMEnd');
+    if (!spanHolder) {
       return;
     }
 
-    const span = this.spanMapping.get(runId)!.span;
+    const span = spanHolder.span;
 
-    let modelName;
-    if (output.llmOutput) {
-      modelName = output.llmOutput.model_name || output.llmOutput.model_id;
-      
-      if (modelName) {
-        _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_MODEL, modelName);
-      }
-      
-      const id = output.llmOutput.id;
-      if (id !== undefined && id !== '') {
-        _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_ID, id);
+    let outputTokens: number | undefined;
+    try {
+      const response = this.providers.parseResponse(output, spanHolder.providerAdapter);
+      if (response.model) {
+        spanHolder.responseModel = response.model;
       }
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_MODEL, response.model);
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_ID, response.id);
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_FINISH_REASONS, response.finishReasons);
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_USAGE_INPUT_TOKENS, response.inputTokens);
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_USAGE_OUTPUT_TOKENS, response.outputTokens);
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_USAGE_CACHE_READ_INPUT_TOKENS, response.cachedInputTokens);
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_USAGE_REASONING_OUTPUT_TOKENS, response.reasoningTokens);
+
+      this.metrics?.recordTokenUsage(response.inputTokens, response.outputTokens, this._metricAttributes(spanHolder));
+      outputTokens = response.outputTokens;
+      this._recordCost(spanHolder, response);
+    } catch (error) {
+      this._reportInternalError(
+        InternalErrorTypeValues.PROVIDER_ADAPTER_ERROR,
+        `Could not parse model response: ${(error as Error).message}`
+      );
+    }
 
-      const tokenUsage = output.llmOutput.token_usage || output.llmOutput.usage;
-      
-      if (tokenUsage) {
-        const promptTokens = tokenUsage.prompt_tokens || 
-                            tokenUsage.input_token_count || 
-                            tokenUsage.input_tokens;
-                            
-        const completionTokens = tokenUsage.completion_tokens || 
-                                tokenUsage.generated_token_count || 
-                                tokenUsage.output_tokens;
-
-        _setSpanAttribute(span, Span_Attributes.GEN_AI_USAGE_INPUT_TOKENS, promptTokens);
-        _setSpanAttribute(span, Span_Attributes.GEN_AI_USAGE_OUTPUT_TOKENS, completionTokens);
+    if (spanHolder.firstTokenTime !== undefined) {
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_CHUNK_COUNT, spanHolder.chunkCount);
+
+      // Fall back to the number of streamed chunks when the provider reports no usage
+      const tokens = typeof outputTokens === 'number' ? outputTokens : spanHolder.chunkCount;
+      if (tokens > 1) {
+        const timePerOutputToken = (Date.now() - spanHolder.firstTokenTime) / 1000 / (tokens - 1);
+        _setSpanAttribute(span, Span_Attributes.GEN_AI_RESPONSE_TIME_PER_OUTPUT_TOKEN, timePerOutputToken);
+        this.metrics?.recordTimePerOutputToken(timePerOutputToken, this._metricAttributes(spanHolder));
       }
     }
 
-    this._endSpan(span, runId);
+    const generations = this._mergeStreamedGenerations(output, spanHolder);
+    this._recordToolCalls(span, generations);
+
+    if (this.captureMessageContent && this.events) {
+      this.events.emitChoices(span, generations, spanHolder.system, this.sanitizer);
+    }
+
+    this._rememberGeneration(spanHolder);
+    this._endSpan(span, runId, undefined, output);
   }
 
   async handleLLMError(
@@ -354,7 +1106,8 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     tags?: string[], 
     extraParams?: Record<string, unknown>
   ): Promise<any> {
-    this._handleError(err, runId, parentRunId, extraParams);
+    this._debugPayload('handleLLMError', { err, runId, parentRunId, tags, extraParams });
+    this._handleError('handleLLMError', err, runId, parentRunId, extraParams);
   }
 
   async handleChainStart(
@@ -370,24 +1123,268 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
       return;
     }
-    // ///////// debugging
-    console.log('chainStart runType:', runType);
-    console.log('chainStart runName:', runName);
+    this._debugPayload('handleChainStart', { chain, inputs, runId, parentRunId, tags, metadata, runType, runName });
+
+    // Conditional edges of a graph become events on the node they leave
+    const edgeSource = getConditionalEdgeSource(runName);
+    if (edgeSource && getLangGraphNodeInfo(metadata)) {
+      this.spanMapping.skip(runId, parentRunId, { edgeSource });
+      return;
+    }
+
+    // Chains that run an agent, and LangGraph graphs, are traced and named as agent runs
+    const isGraph = isLangGraphRun(chain);
+    const chainType: RunType = metadata?.agent_name || isGraph ? 'agent' : 'chain';
+    const name = runName || this._getNameFromCallback(chain, tags, metadata, {});
+
+    // Remembered even when the prompt run itself is not traced
+    const promptInfo = isPromptTemplateRun(chain, runType) ? getPromptTemplateInfo(chain, name, metadata) : undefined;
+    if (promptInfo) {
+      this._rememberPrompt(parentRunId, promptInfo);
+    }
 
-    const name = this._getNameFromCallback(chain, tags, metadata, {});
+    if (!this._shouldTrace(chainType, { parentRunId, name, serialized: chain, tags, metadata })) {
+      this.spanMapping.skip(runId, parentRunId);
+      return;
+    }
 
-    const spanName = `chain \${name}`;
-    const span = this._createSpan(runId, parentRunId, spanName, SpanKind.INTERNAL, metadata);
+    const links = this._resumedRunLinks(isGraph, metadata);
+
+    // Output parsers link to the model call whose output they parse.
+    // withStructuredOutput's default parser is a plain lambda.
+    const tracedParentRunId = this.spanMapping.resolveParent(parentRunId);
+    const parentHolder = tracedParentRunId ? this.spanMapping.get(tracedParentRunId) : undefined;
+    const isParser = isOutputParserRun(chain) || (parentHolder?.structuredOutput === true && chainType === 'chain');
+    const generation = isParser
+      ? this._findInAncestors(tracedParentRunId, (holder) => holder.lastGeneration)
+      : undefined;
+    const parserLinks: Link[] = generation
+      ? [{ context: generation.spanContext, attributes: { 'langchain.link.type': 'generation' } }]
+      : [];
+
+    const spanName = this._spanName(chainType, name);
+    const span = this._createSpan(
+      runId, parentRunId, spanName, SpanKind.INTERNAL, metadata, [...links, ...parserLinks], tags
+    );
+    const spanHolder = this.spanMapping.get(runId)!;
+    spanHolder.runType = 'chain';
+    spanHolder.structuredOutput = isStructuredOutputRun(name);
+    if (isParser) {
+      spanHolder.outputParser = true;
+      spanHolder.structuredOutputSchema = getParserSchemaName(chain) ?? generation?.schemaName;
+      _setSpanAttribute(span, Span_Attributes.LANGCHAIN_STRUCTURED_OUTPUT_SCHEMA, spanHolder.structuredOutputSchema);
+    }
+    spanHolder.retryRun = isRetryRun(chain);
+    spanHolder.fallbacksRun = isFallbacksRun(chain);
 
     if (metadata && metadata.agent_name) {
       _setSpanAttribute(span, Span_Attributes.GEN_AI_AGENT_NAME, metadata.agent_name);
     }
+    this._setLangGraphAttributes(span, spanHolder, isGraph, name, metadata, links.length > 0);
+
+    if (promptInfo) {
+      this._setPromptAttributes(span, promptInfo);
+      _setSpanAttribute(span, Span_Attributes.LANGCHAIN_PROMPT_NAME, promptInfo.name);
+      _setSpanAttribute(span, Span_Attributes.LANGCHAIN_PROMPT_HUB_REF, promptInfo.hubRef);
+      _setSpanAttribute(span, Span_Attributes.LANGCHAIN_PROMPT_HUB_COMMIT, promptInfo.hubCommit);
+      _setSpanAttribute(span, Span_Attributes.LANGCHAIN_PROMPT_HASH, promptInfo.hash);
+      if (this.capturePromptVariables) {
+        this._setContentAttribute(span, Span_Attributes.LANGCHAIN_PROMPT_VARIABLES, inputs);
+      }
+    }
+    if (this.captureMessageContent) {
+      this._setContentAttribute(span, 'gen_ai.prompt', inputs);
+    }
+    this._startRun(spanHolder, { runId, parentRunId, runType: chainType, name, serialized: chain, inputs, tags, metadata });
+  }
+
+
+  /**
+   * Links from a graph resuming a thread, or a node resuming its checkpoint,
+   * to the run that was interrupted
+   */
+  private _resumedRunLinks(isGraph: boolean, metadata: Record<string, any> = {}): Link[] {
+    const nodeInfo = getLangGraphNodeInfo(metadata);
+    let key: string | undefined;
+    if (isGraph && metadata.thread_id !== undefined) {
+      key = `thread:${metadata.thread_id}`;
+    } else if (nodeInfo?.resuming && nodeInfo.checkpointNs) {
+      key = `checkpoint:${nodeInfo.checkpointNs}`;
+    }
+    const interrupted = key ? this.interruptedRuns.take(key) : undefined;
+    if (!interrupted) {
+      return [];
+    }
+    const attributes: Attributes = { 'langgraph.link.type': 'resume' };
+    if (metadata.thread_id !== undefined) {
+      attributes[Span_Attributes.LANGGRAPH_THREAD_ID] = String(metadata.thread_id);
+    }
+    if (nodeInfo?.checkpointNs) {
+      attributes[Span_Attributes.LANGGRAPH_CHECKPOINT_NS] = nodeInfo.checkpointNs;
+    }
+    return [{ context: interrupted, attributes }];
+  }
+
+  /**
+   * Keep a prompt template run on its nearest traced ancestor, where the model
+   * calls that follow it in the same chain find it
+   */
+  private _rememberPrompt(parentRunId: string | undefined, promptInfo: PromptTemplateInfo): void {
+    const ancestorRunId = this.spanMapping.resolveParent(parentRunId);
+    const ancestor = ancestorRunId ? this.spanMapping.get(ancestorRunId) : undefined;
+    if (ancestor) {
+      ancestor.promptInfo = promptInfo;
+    }
+  }
+
+  private _findPrompt(runId: string | undefined): PromptTemplateInfo | undefined {
+    return this._findInAncestors(runId, (spanHolder) => spanHolder.promptInfo);
+  }
+
+  /**
+   * The first value found on a run or its traced ancestors, nearest first
+   */
+  private _findInAncestors<T>(runId: string | undefined, pick: (spanHolder: SpanHolder) => T | undefined): T | undefined {
+    const seen = new Set<string>();
+    while (runId && !seen.has(runId)) {
+      seen.add(runId);
+      const spanHolder = this.spanMapping.get(runId);
+      const value = spanHolder ? pick(spanHolder) : undefined;
+      if (value !== undefined) {
+        return value;
+      }
+      runId = spanHolder?.parentRunId;
+    }
+    return undefined;
+  }
+
+  /**
+   * Keep a finished model call on its parent, where the output parser that
+   * consumes its output finds it
+   */
+  private _rememberGeneration(spanHolder: SpanHolder): void {
+    const parentHolder = spanHolder.parentRunId ? this.spanMapping.get(spanHolder.parentRunId) : undefined;
+    if (parentHolder) {
+      parentHolder.lastGeneration = {
+        spanContext: spanHolder.span.spanContext(),
+        schemaName: spanHolder.structuredOutputSchema,
+      };
+    }
+  }
+
+  /**
+   * Record whether an output parser succeeded, on its span and on the
+   * withStructuredOutput pipeline it belongs to
+   */
+  private _recordParse(spanHolder: SpanHolder, parsed: boolean): void {
+    spanHolder.span.setAttribute(Span_Attributes.LANGCHAIN_STRUCTURED_OUTPUT_PARSED, parsed);
+    const parentHolder = spanHolder.parentRunId ? this.spanMapping.get(spanHolder.parentRunId) : undefined;
+    if (parentHolder?.structuredOutput) {
+      parentHolder.span.setAttribute(Span_Attributes.LANGCHAIN_STRUCTURED_OUTPUT_PARSED, parsed);
+      _setSpanAttribute(
+        parentHolder.span, Span_Attributes.LANGCHAIN_STRUCTURED_OUTPUT_SCHEMA, spanHolder.structuredOutputSchema
+      );
+    }
+  }
+
+  private _setPromptAttributes(span: Span, promptInfo: PromptTemplateInfo | undefined): void {
+    if (promptInfo) {
+      _setSpanAttribute(span, Span_Attributes.LANGCHAIN_PROMPT_ID, promptInfo.id);
+      _setSpanAttribute(span, Span_Attributes.LANGCHAIN_PROMPT_VERSION, promptInfo.version);
+    }
+  }
+
+  private _setLangGraphAttributes(
+    span: Span,
+    spanHolder: SpanHolder,
+    isGraph: boolean,
+    name: string,
+    metadata: Record<string, any> = {},
+    resumed: boolean
+  ): void {
+    const threadId = metadata.thread_id !== undefined ? String(metadata.thread_id) : undefined;
+    const parentHolder = spanHolder.parentRunId ? this.spanMapping.get(spanHolder.parentRunId) : undefined;
+    const nodeInfo = getLangGraphNodeInfo(metadata);
+
+    if (isGraph) {
+      spanHolder.isGraph = true;
+      spanHolder.threadId = threadId;
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, GenAIOperationValues.INVOKE_AGENT);
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_AGENT_NAME, metadata.agent_name ?? name);
+    } else if (nodeInfo && parentHolder?.isGraph && name === nodeInfo.node) {
+      // The run LangGraph starts for each node step is named after the node
+      spanHolder.graphNode = nodeInfo.node;
+      spanHolder.threadId = threadId;
+      spanHolder.checkpointNs = nodeInfo.checkpointNs;
+      _setSpanAttribute(span, Span_Attributes.LANGGRAPH_NODE, nodeInfo.node);
+      _setSpanAttribute(span, Span_Attributes.LANGGRAPH_STEP, nodeInfo.step);
+      _setSpanAttribute(span, Span_Attributes.LANGGRAPH_TRIGGERS, nodeInfo.triggers);
+      _setSpanAttribute(span, Span_Attributes.LANGGRAPH_CHECKPOINT_NS, nodeInfo.checkpointNs);
+    } else {
+      return;
+    }
+
+    _setSpanAttribute(span, Span_Attributes.LANGGRAPH_THREAD_ID, threadId);
+    if (resumed) {
+      span.setAttribute(Span_Attributes.LANGGRAPH_RESUMED, true);
+    }
+  }
 
-    _setSpanAttribute(span, 'gen_ai.prompt', String(inputs));
+  private _recordConditionalEdge(runId: string, edgeSource: string, outputs: ChainValues): void {
+    const sourceRunId = this.spanMapping.resolveParent(runId);
+    const sourceHolder = sourceRunId ? this.spanMapping.get(sourceRunId) : undefined;
+    if (!sourceHolder) {
+      return;
+    }
+    sourceHolder.span.addEvent('langgraph.edge.conditional', {
+      [Span_Attributes.LANGGRAPH_EDGE_SOURCE]: edgeSource,
+      [Span_Attributes.LANGGRAPH_EDGE_DESTINATIONS]: getEdgeDestinations(outputs),
+    });
+  }
 
-    console.log(`🗣️ Starting chain`);
+  /**
+   * Remember an interrupted run and the graph around it, so resumes can link back
+   */
+  private _markInterrupted(spanHolder: SpanHolder): void {
+    spanHolder.span.setAttribute(Span_Attributes.LANGGRAPH_INTERRUPTED, true);
+    if (spanHolder.isGraph && spanHolder.threadId !== undefined) {
+      this.interruptedRuns.remember(`thread:${spanHolder.threadId}`, spanHolder.span.spanContext());
+    } else if (spanHolder.checkpointNs) {
+      this.interruptedRuns.remember(`checkpoint:${spanHolder.checkpointNs}`, spanHolder.span.spanContext());
+    }
   }
 
+  /**
+   * End a run paused by a LangGraph interrupt. Interrupts are control flow, so
+   * the span keeps an unset status.
+   */
+  private _endInterruptedRun(runId: string, err: any): void {
+    const spanHolder = this._getEndingRun(runId, 'handleChainError');
+    if (!spanHolder) {
+      return;
+    }
+
+    const attributes: Attributes = {};
+    if (spanHolder.graphNode) {
+      attributes[Span_Attributes.LANGGRAPH_NODE] = spanHolder.graphNode;
+    }
+    if (this.captureMessageContent) {
+      attributes['langgraph.interrupt.value'] = this.sanitizer.sanitize(
+        this.serializer.stringify(err?.interrupts ?? err?.message),
+        'langgraph.interrupt.value'
+      );
+    }
+    spanHolder.span.addEvent('langgraph.interrupt', attributes);
+    if (spanHolder.graphNode || spanHolder.isGraph) {
+      this._markInterrupted(spanHolder);
+    }
+    // The graph itself returns normally, so mark it from the interrupted node
+    const graphHolder = spanHolder.parentRunId ? this.spanMapping.get(spanHolder.parentRunId) : undefined;
+    if (spanHolder.graphNode && graphHolder?.isGraph) {
+      this._markInterrupted(graphHolder);
+    }
+    this._endSpan(spanHolder.span, runId);
+  }
 
   async handleChainEnd(
     outputs: ChainValues, 
@@ -401,16 +1398,31 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
       return;
     }
+    this._debugPayload('handleChainEnd', { outputs, runId, parentRunId, tags, kwargs });
+
+    const edgeSource = this.spanMapping.getSkipped(runId)?.details?.edgeSource;
+    if (edgeSource) {
+      this._recordConditionalEdge(runId, edgeSource, outputs);
+    }
 
-    if (!this.spanMapping.has(runId)) {
+    const spanHolder = this._getEndingRun(runId, 'handleChainEnd');
+    if (!spanHolder) {
       return;
     }
 
-    const spanHolder = this.spanMapping.get(runId)!;
     const span = spanHolder.span;
     
-    _setSpanAttribute(span, 'gen_ai.completion', String(outputs));
-    this._endSpan(span, runId);
+    if (this.captureMessageContent) {
+      this._setContentAttribute(span, 'gen_ai.completion', outputs);
+    }
+    // Graphs that paused return the pending interrupts instead of throwing
+    if (spanHolder.isGraph && Array.isArray(outputs?.__interrupt__) && outputs.__interrupt__.length > 0) {
+      this._markInterrupted(spanHolder);
+    }
+    if (spanHolder.outputParser) {
+      this._recordParse(spanHolder, true);
+    }
+    this._endSpan(span, runId, undefined, outputs);
   }
 
   async handleChainError(
@@ -422,7 +1434,48 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
         inputs?: Record<string, unknown>;
     }
   ): Promise<any> {
-     this._handleError(err, runId, parentRunId, kwargs);
+    this._debugPayload('handleChainError', { err, runId, parentRunId, tags, kwargs });
+    if (isGraphInterrupt(err)) {
+      this._endInterruptedRun(runId, err);
+      return;
+    }
+    const spanHolder = this.spanMapping.get(runId);
+    if (spanHolder?.outputParser) {
+      this._recordParse(spanHolder, false);
+      this._handleError(
+        'handleChainError', err, runId, parentRunId, kwargs, classifyError(err) ?? ErrorTypeValues.OUTPUT_PARSING
+      );
+      return;
+    }
+    this._handleError('handleChainError', err, runId, parentRunId, kwargs);
+  }
+
+  /**
+   * Events sent with dispatchCustomEvent, recorded on the span of the run
+   * that sent them or its nearest traced ancestor. The payload is recorded,
+   * redacted, only when message content is captured.
+   */
+  async handleCustomEvent(
+    eventName: string,
+    data: any,
+    runId: string,
+    tags?: string[],
+    metadata?: Record<string, any>
+  ): Promise<any> {
+    if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
+      return;
+    }
+    this._debugPayload('handleCustomEvent', { eventName, data, runId, tags, metadata });
+
+    const tracedRunId = this.spanMapping.resolveParent(runId);
+    const spanHolder = tracedRunId ? this.spanMapping.get(tracedRunId) : undefined;
+    if (!spanHolder || spanHolder.ended) {
+      return;
+    }
+    const attributes = this.captureMessageContent
+      ? this._contentAttributes(Span_Attributes.LANGCHAIN_CUSTOM_EVENT_DATA, data)
+      : undefined;
+    spanHolder.span.addEvent(eventName, attributes);
   }
 
   async handleToolStart(
@@ -437,28 +1490,57 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
       return;
     }
+    this._debugPayload('handleToolStart', { tool, input, runId, parentRunId, tags, metadata, runName });
+
+    let toolInfo: ToolInfo | undefined;
+    try {
+      toolInfo = getToolInfo(tool);
+    } catch (error) {
+      this._reportInternalError(
+        InternalErrorTypeValues.SERIALIZATION_ERROR,
+        `Could not read tool details: ${(error as Error).message}`
+      );
+    }
+    const toolCall = getToolCallFromInput(input);
+    const name = runName || toolInfo?.name || toolCall?.name || this._getNameFromCallback(tool, undefined, undefined, {});
+    if (!this._shouldTrace('tool', { parentRunId, name, serialized: tool, tags, metadata })) {
+      this.spanMapping.skip(runId, parentRunId);
+      return;
+    }
 
-    const name = this._getNameFromCallback(tool, undefined, undefined, {});
-    
-    const spanName = `execute_tool \${name}`;
-    const span = this._createSpan(runId, parentRunId, spanName, SpanKind.INTERNAL, metadata);
-
-    _setSpanAttribute(span, 'gen_ai.tool.input', input);
+    const spanName = this._spanName('tool', name, 'execute_tool');
+    const span = this._createSpan(runId, parentRunId, spanName, SpanKind.INTERNAL, metadata, undefined, tags);
 
-    if (tool.id) {
-      _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_CALL_ID, tool.id);
+    if (this.captureMessageContent) {
+      this._setContentAttribute(span, 'gen_ai.tool.input', input);
     }
-    
-    // need to find alternative to below
-    // if (tool.description) {
-    //   _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_DESCRIPTION, tool.description);
-    // }
-    console.log("toolStart runName: ", runName);
 
     _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_NAME, name);
     _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, 'execute_tool');
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_CALL_ID, toolCall?.id);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_TYPE, getToolType(metadata));
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_DESCRIPTION, toolInfo?.description);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_RETURN_DIRECT, toolInfo?.returnDirect);
+
+    const spanHolder = this.spanMapping.get(runId)!;
+    spanHolder.runType = 'tool';
+    spanHolder.operationName = 'execute_tool';
+    spanHolder.toolCallId = toolCall?.id;
+    if (this.captureToolDefinitions) {
+      await this._setToolParameters(span, tool);
+    }
+    this._startRun(spanHolder, { runId, parentRunId, runType: 'tool', name, serialized: tool, inputs: input, tags, metadata });
+  }
 
-    console.log(`🗣️ Starting tool start`);
+  private async _setToolParameters(span: Span, tool: Serialized): Promise<void> {
+    try {
+      this._setContentAttribute(span, Span_Attributes.GEN_AI_TOOL_PARAMETERS, await getToolArgsSchema(tool));
+    } catch (error) {
+      this._reportInternalError(
+        InternalErrorTypeValues.SERIALIZATION_ERROR,
+        `Could not read tool schema: ${(error as Error).message}`
+      );
+    }
   }
 
   async handleToolEnd(
@@ -470,14 +1552,39 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
       return;
     }
+    this._debugPayload('handleToolEnd', { output, runId, parentRunId, tags });
 
-    if (!this.spanMapping.has(runId)) {
+    const spanHolder = this._getEndingRun(runId, 'handleToolEnd');
+    if (!spanHolder) {
       return;
     }
 
-    const span = this.spanMapping.get(runId)!.span;
-    _setSpanAttribute(span, 'gen_ai.tool.output', String(output));
-    this._endSpan(span, runId);
+    const span = spanHolder.span;
+    if (this.captureMessageContent) {
+      this._setContentAttribute(span, 'gen_ai.tool.output', output);
+    }
+
+    // Tools invoked with a tool call return a ToolMessage
+    const toolMessage = getToolMessageInfo(output);
+    if (toolMessage) {
+      if (!spanHolder.toolCallId) {
+        _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_CALL_ID, toolMessage.toolCallId);
+      }
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_TOOL_STATUS, toolMessage.status);
+      if (this.captureMessageContent) {
+        this._setContentAttribute(span, Span_Attributes.GEN_AI_TOOL_ARTIFACT, toolMessage.artifact);
+      }
+      if (toolMessage.status === 'error') {
+        // The error is the tool output, only described when content is captured
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: this.captureMessageContent
+            ? this.sanitizer.sanitize(this.serializer.stringify(output.content), 'gen_ai.tool.output')
+            : undefined,
+        });
+      }
+    }
+    this._endSpan(span, runId, undefined, output);
   }
 
   async handleToolError(
@@ -486,7 +1593,108 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     parentRunId?: string, 
     tags?: string[]
   ): Promise<any> {
-    this._handleError(err, runId, parentRunId, {});
+    this._debugPayload('handleToolError', { err, runId, parentRunId, tags });
+    this._handleError('handleToolError', err, runId, parentRunId, {}, classifyToolError(err));
+  }
+
+  async handleRetrieverStart(
+    retriever: Serialized,
+    query: string,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    name?: string
+  ): Promise<any> {
+    if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
+      return;
+    }
+    this._debugPayload('handleRetrieverStart', { retriever, query, runId, parentRunId, tags, metadata, name });
+
+    const retrieverName = name || this._getNameFromCallback(retriever, tags, metadata, {});
+    if (!this._shouldTrace('retriever', { parentRunId, name: retrieverName, serialized: retriever, tags, metadata })) {
+      this.spanMapping.skip(runId, parentRunId);
+      return;
+    }
+
+    const span = this._createSpan(
+      runId,
+      parentRunId,
+      this._spanName('retriever', retrieverName, GenAIOperationValues.RETRIEVE),
+      SpanKind.INTERNAL,
+      metadata,
+      undefined,
+      tags
+    );
+    const spanHolder = this.spanMapping.get(runId)!;
+    spanHolder.runType = 'retriever';
+
+    const params = _getRetrieverParams(retriever, metadata);
+
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, GenAIOperationValues.RETRIEVE);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_RETRIEVAL_RETRIEVER_NAME, retrieverName);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_RETRIEVAL_VECTOR_STORE, params.vectorStore);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_RETRIEVAL_TOP_K, params.topK);
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_RETRIEVAL_SEARCH_TYPE, params.searchType);
+    // Queries are usually the user's own words
+    if (this.captureMessageContent) {
+      this._setContentAttribute(span, Span_Attributes.GEN_AI_RETRIEVAL_QUERY, query);
+    }
+    this._startRun(spanHolder, {
+      runId, parentRunId, runType: 'retriever', name: retrieverName, serialized: retriever, inputs: query, tags, metadata,
+    });
+  }
+
+  async handleRetrieverEnd(
+    documents: DocumentInterface[],
+    runId: string,
+    parentRunId?: string,
+    tags?: string[]
+  ): Promise<any> {
+    if (context.active().getValue(_SUPPRESS_INSTRUMENTATION_KEY)) {
+      return;
+    }
+    this._debugPayload('handleRetrieverEnd', { documents, runId, parentRunId, tags });
+
+    const spanHolder = this._getEndingRun(runId, 'handleRetrieverEnd');
+    if (!spanHolder) {
+      return;
+    }
+
+    const span = spanHolder.span;
+    _setSpanAttribute(span, Span_Attributes.GEN_AI_RETRIEVAL_DOCUMENTS_COUNT, documents.length);
+
+    if (this.captureRetrievalDocuments && documents.length > 0) {
+      const ids = documents.map((d) => d.id ?? '');
+      const sources = documents.map((d) => String(d.metadata?.source ?? ''));
+      const scores = documents.map(_getDocumentScore);
+
+      if (ids.some((id) => id !== '')) {
+        _setSpanAttribute(span, Span_Attributes.GEN_AI_RETRIEVAL_DOCUMENT_IDS, ids);
+      }
+      if (sources.some((source) => source !== '')) {
+        _setSpanAttribute(
+          span,
+          Span_Attributes.GEN_AI_RETRIEVAL_DOCUMENT_SOURCES,
+          sources.map((source) => this.sanitizer.sanitize(source, Span_Attributes.GEN_AI_RETRIEVAL_DOCUMENT_SOURCES))
+        );
+      }
+      if (scores.every((score) => score !== undefined)) {
+        _setSpanAttribute(span, Span_Attributes.GEN_AI_RETRIEVAL_DOCUMENT_SCORES, scores);
+      }
+    }
+
+    this._endSpan(span, runId, undefined, documents);
+  }
+
+  async handleRetrieverError(
+    err: any,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[]
+  ): Promise<any> {
+    this._debugPayload('handleRetrieverError', { err, runId, parentRunId, tags });
+    this._handleError('handleRetrieverError', err, runId, parentRunId, {});
   }
 
   async handleAgentAction(
@@ -495,18 +1703,19 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     parentRunId?: string, 
     tags?: string[],
   ): Promise<void> {
+    this._debugPayload('handleAgentAction', { action, runId, parentRunId, tags });
     const tool = action.tool;
     const toolInput = action.toolInput;
 
     if (this.spanMapping.has(runId)) {
       const span = this.spanMapping.get(runId)!.span;
       
-      _setSpanAttribute(span, 'gen_ai.agent.tool.input', toolInput);
+      if (this.captureMessageContent) {
+        this._setContentAttribute(span, 'gen_ai.agent.tool.input', toolInput);
+      }
       _setSpanAttribute(span, 'gen_ai.agent.tool.name', tool);
-      _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, 'invoke_agent');
+      _setSpanAttribute(span, Span_Attributes.GEN_AI_OPERATION_NAME, GenAIOperationValues.INVOKE_AGENT);
     }
-
-    console.log(`🗣️ Starting agent action`);
   }
 
   async handleAgentEnd(
@@ -515,9 +1724,12 @@ export class OpenTelemetryCallbackHandler extends BaseCallbackHandler {
     parentRunId?: string, 
     tags?: string[],
   ): Promise<void> {
+    this._debugPayload('handleAgentEnd', { action, runId, parentRunId, tags });
     if (this.spanMapping.has(runId)) {
       const span = this.spanMapping.get(runId)!.span;
-      _setSpanAttribute(span, 'gen_ai.agent.tool.output', action.returnValues.output);
+      if (this.captureMessageContent) {
+        this._setContentAttribute(span, 'gen_ai.agent.tool.output', action.returnValues.output);
+      }
     }
   }
 }
@@ -0,0 +1,378 @@
+import type { InstrumentationConfig } from '@opentelemetry/instrumentation';
+import type { TracerProvider } from '@opentelemetry/api';
+import type { SanitizerOptions } from './redaction.js';
+import type { ProviderAdapter } from './providers.js';
+import type { ModelPrice } from './cost.js';
+import { CONTENT_FORMATS } from './serialization.js';
+import type { ContentFormat, SerializerOptions } from './serialization.js';
+import type { SpanEndHook, SpanErrorHook, SpanStartHook } from './hooks.js';
+import { DETAIL_LEVELS } from './filtering.js';
+import type { DetailLevel, RunMatcher } from './filtering.js';
+
+/**
+ * Kinds of LangChain runs the handler can trace. Agent runs are chain runs
+ * that carry an agent name in their metadata, embeddings calls are traced
+ * without callbacks.
+ */
+export type RunType = 'chain' | 'llm' | 'tool' | 'retriever' | 'agent' | 'embeddings';
+
+export const RUN_TYPES: RunType[] = ['chain', 'llm', 'tool', 'retriever', 'agent', 'embeddings'];
+
+/**
+ * `default` keeps the attribute names this package has always emitted,
+ * `gen_ai_latest_experimental` switches to the latest GenAI semantic conventions
+ */
+export type SemconvStability = 'default' | 'gen_ai_latest_experimental';
+
+export interface LangChainInstrumentationConfig extends InstrumentationConfig {
+  /**
+   * Record prompt and completion content as GenAI events and span attributes,
+   * along with tool and agent inputs and outputs, retrieval queries and custom
+   * event payloads. Off by default because prompts may contain sensitive data.
+   */
+  captureMessageContent?: boolean;
+  /**
+   * Redaction and truncation applied to every captured payload
+   */
+  redaction?: SanitizerOptions;
+  /**
+   * Maximum length of captured string attributes, unless redaction sets its own
+   */
+  maxAttributeLength?: number;
+  /**
+   * Record captured inputs and outputs as one JSON attribute, the default, or
+   * as one attribute per leaf such as gen_ai.prompt.0.role
+   */
+  contentFormat?: ContentFormat;
+  /**
+   * Record the variables prompt templates are formatted with, after redaction
+   */
+  capturePromptVariables?: boolean;
+  /**
+   * Depth and size limits applied when captured payloads are serialized
+   */
+  serialization?: SerializerOptions;
+  /**
+   * Run types to create spans for, all enabled by default. Children of a
+   * skipped run are attached to its nearest traced ancestor.
+   */
+  traceRunTypes?: Partial<Record<RunType, boolean>>;
+  /**
+   * Skip the glue runnables of LCEL pipelines and LangGraph (sequences,
+   * lambdas, parallel maps, parsers, channel writes, runs tagged
+   * langsmith:hidden) unless they were given a name. Top-level runs are
+   * always kept, children of skipped runs attach to their nearest traced ancestor.
+   */
+  skipInternalRunnables?: boolean;
+  /**
+   * Class names treated as internal runnables, replacing the default list
+   */
+  internalRunnables?: string[];
+  /**
+   * Only trace runs matching one of these, when given
+   */
+  includeRuns?: RunMatcher[];
+  /**
+   * Never trace runs matching one of these
+   */
+  excludeRuns?: RunMatcher[];
+  /**
+   * Detail level of runs whose metadata does not set otel_detail_level
+   */
+  detailLevel?: DetailLevel;
+  /**
+   * Span name per run type, with `{operation}` and `{name}` placeholders
+   */
+  spanNameTemplates?: Partial<Record<RunType, string>>;
+  /**
+   * Semantic convention attribute names to emit
+   */
+  semconvStability?: SemconvStability;
+  /**
+   * Record the names, descriptions and schemas of the tools bound to chat
+   * models, and the argument schema on tool spans
+   */
+  captureToolDefinitions?: boolean;
+  /**
+   * Adapters for custom model integrations, consulted before the built-in ones
+   */
+  providerAdapters?: ProviderAdapter[];
+  /**
+   * Record ids, sources and scores of retrieved documents on retriever spans
+   */
+  captureRetrievalDocuments?: boolean;
+  /**
+   * Estimate the cost of model calls from their token usage, on by default.
+   * Costs are recorded on LLM spans, totalled on the root run and counted per
+   * model and tenant.
+   */
+  estimateCost?: boolean;
+  /**
+   * Prices per million tokens, added to or replacing the bundled price table.
+   * Keys match model ids case-insensitively, after dropping a provider path
+   * (models/) or vendor prefix (us.anthropic.), either exactly or followed
+   * only by a version suffix such as -2024-08-06, @20240620, -v2:0, -latest
+   * or -preview. gpt-4o prices gpt-4o-2024-08-06 but not gpt-4o-mini.
+   */
+  modelPrices?: Record<string, ModelPrice>;
+  /**
+   * Run metadata key whose value tags the cost metric with a tenant
+   */
+  tenantMetadataKey?: string;
+  /**
+   * Add a span event per streamed chunk, at most maxChunkEventsPerSpan per span
+   * and no closer together than chunkEventMinIntervalMs
+   */
+  recordChunkEvents?: boolean;
+  maxChunkEventsPerSpan?: number;
+  chunkEventMinIntervalMs?: number;
+  /**
+   * Runs whose end callback never fires are aborted after runTtlMs, and the
+   * oldest pending runs are aborted once more than maxPendingRuns are open
+   */
+  runTtlMs?: number;
+  maxPendingRuns?: number;
+  runSweepIntervalMs?: number;
+  /**
+   * Run metadata keys recorded on every span of a run as
+   * langchain.metadata.<key>. Session, user and conversation ids are always
+   * recorded, see withAssociationProperties.
+   */
+  associationMetadataKeys?: string[];
+  /**
+   * Run tags recorded on every span as langchain.tags, `*` records them all
+   */
+  associationTags?: string[];
+  /**
+   * Association properties (run metadata) copied into OpenTelemetry baggage so
+   * they reach downstream services
+   */
+  baggageKeys?: string[];
+  /**
+   * Route top-level runs to a tracer provider chosen from the run metadata,
+   * e.g. one provider per tenant. Returning undefined uses the default provider.
+   * Descendant runs always use the provider of their root run.
+   */
+  tracerProviderResolver?: (metadata: Record<string, any>) => TracerProvider | undefined;
+  /**
+   * Called when the span of a run starts, to add attributes of your own such
+   * as a feature flag or experiment arm. Hooks that throw are reported through
+   * diag and do not affect the run.
+   */
+  onSpanStart?: SpanStartHook;
+  /**
+   * Called before the span of a run ends, with the run output
+   */
+  onSpanEnd?: SpanEndHook;
+  /**
+   * Called when a run fails, with the error, before onSpanEnd
+   */
+  onError?: SpanErrorHook;
+  /**
+   * Log the raw arguments of every callback at diag debug level. Payloads are
+   * not redacted, so only turn this on while troubleshooting.
+   */
+  debugCallbackPayloads?: boolean;
+}
+
+export const DEFAULT_SPAN_NAME_TEMPLATES: Record<RunType, string> = {
+  chain: 'chain {name}',
+  llm: '{operation} {name}',
+  tool: 'execute_tool {name}',
+  retriever: 'retrieve {name}',
+  agent: 'invoke_agent {name}',
+  embeddings: '{operation} {name}',
+};
+
+/**
+ * Environment variables that override the code configuration, so operators
+ * can change behaviour without a redeploy
+ */
+export const Config_Env_Vars = {
+  CAPTURE_MESSAGE_CONTENT: 'OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT',
+  MAX_ATTRIBUTE_LENGTH: 'OTEL_INSTRUMENTATION_GENAI_MAX_ATTRIBUTE_LENGTH',
+  TRACE_RUN_TYPES: 'OTEL_INSTRUMENTATION_GENAI_TRACE_RUN_TYPES',
+  CAPTURE_RETRIEVAL_DOCUMENTS: 'OTEL_INSTRUMENTATION_GENAI_CAPTURE_RETRIEVAL_DOCUMENTS',
+  DEBUG_CALLBACK_PAYLOADS: 'OTEL_INSTRUMENTATION_GENAI_DEBUG_CALLBACK_PAYLOADS',
+  SEMCONV_STABILITY_OPT_IN: 'OTEL_SEMCONV_STABILITY_OPT_IN',
+};
+
+/**
+ * Environment variable that turns on prompt and completion content capture
+ */
+export const CAPTURE_MESSAGE_CONTENT_ENV = Config_Env_Vars.CAPTURE_MESSAGE_CONTENT;
+
+function _readEnv(name: string): string | undefined {
+  const value = process.env[name];
+  return value === undefined || value.trim() === '' ? undefined : value.trim();
+}
+
+function _parseBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value.toLowerCase() === 'true';
+}
+
+/**
+ * Read the overrides present in the environment
+ */
+export function configFromEnv(): Partial<LangChainInstrumentationConfig> {
+  const overrides: Partial<LangChainInstrumentationConfig> = {};
+
+  const captureMessageContent = _parseBoolean(_readEnv(Config_Env_Vars.CAPTURE_MESSAGE_CONTENT));
+  if (captureMessageContent !== undefined) {
+    overrides.captureMessageContent = captureMessageContent;
+  }
+
+  const captureRetrievalDocuments = _parseBoolean(_readEnv(Config_Env_Vars.CAPTURE_RETRIEVAL_DOCUMENTS));
+  if (captureRetrievalDocuments !== undefined) {
+    overrides.captureRetrievalDocuments = captureRetrievalDocuments;
+  }
+
+  const debugCallbackPayloads = _parseBoolean(_readEnv(Config_Env_Vars.DEBUG_CALLBACK_PAYLOADS));
+  if (debugCallbackPayloads !== undefined) {
+    overrides.debugCallbackPayloads = debugCallbackPayloads;
+  }
+
+  const maxAttributeLength = _readEnv(Config_Env_Vars.MAX_ATTRIBUTE_LENGTH);
+  if (maxAttributeLength !== undefined) {
+    overrides.maxAttributeLength = Number(maxAttributeLength);
+  }
+
+  // A comma separated list of the run types to trace, everything else is skipped
+  const traceRunTypes = _readEnv(Config_Env_Vars.TRACE_RUN_TYPES);
+  if (traceRunTypes !== undefined) {
+    const enabled = traceRunTypes.split(',').map((t) => t.trim().toLowerCase());
+    overrides.traceRunTypes = Object.fromEntries(
+      RUN_TYPES.map((runType) => [runType, enabled.includes(runType)])
+    );
+  }
+
+  const semconvOptIn = _readEnv(Config_Env_Vars.SEMCONV_STABILITY_OPT_IN);
+  if (semconvOptIn !== undefined) {
+    overrides.semconvStability = semconvOptIn.split(',').map((v) => v.trim()).includes('gen_ai_latest_experimental')
+      ? 'gen_ai_latest_experimental'
+      : 'default';
+  }
+
+  return overrides;
+}
+
+function _isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function _isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check a config for invalid values. Invalid fields are removed from the
+ * returned config and described in `errors`.
+ */
+export function validateConfig(
+  config: LangChainInstrumentationConfig
+): { config: LangChainInstrumentationConfig; errors: string[] } {
+  const result: LangChainInstrumentationConfig = { ...config };
+  const errors: string[] = [];
+  const reject = (field: keyof LangChainInstrumentationConfig, reason: string) => {
+    errors.push(`${String(field)}: ${reason}`);
+    delete result[field];
+  };
+
+  for (const field of ['maxAttributeLength', 'maxChunkEventsPerSpan', 'maxPendingRuns'] as const) {
+    if (result[field] !== undefined && !_isPositiveInteger(result[field])) {
+      reject(field, 'must be a positive integer');
+    }
+  }
+  for (const field of ['chunkEventMinIntervalMs', 'runTtlMs', 'runSweepIntervalMs'] as const) {
+    if (result[field] !== undefined && !_isNonNegativeNumber(result[field])) {
+      reject(field, 'must be a non-negative number');
+    }
+  }
+  for (const [field, value] of Object.entries(result.serialization ?? {})) {
+    if (value !== undefined && !_isPositiveInteger(value)) {
+      reject('serialization', `${field} must be a positive integer`);
+      break;
+    }
+  }
+  if (result.contentFormat !== undefined && !CONTENT_FORMATS.includes(result.contentFormat)) {
+    reject('contentFormat', `unknown value "${result.contentFormat}"`);
+  }
+
+  for (const key of Object.keys(result.traceRunTypes ?? {})) {
+    if (!RUN_TYPES.includes(key as RunType)) {
+      reject('traceRunTypes', `unknown run type "${key}"`);
+      break;
+    }
+  }
+  for (const [key, template] of Object.entries(result.spanNameTemplates ?? {})) {
+    if (!RUN_TYPES.includes(key as RunType) || typeof template !== 'string' || template.trim() === '') {
+      reject('spanNameTemplates', `invalid template for "${key}"`);
+      break;
+    }
+  }
+
+  for (const field of ['includeRuns', 'excludeRuns'] as const) {
+    const value = result[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some((m) => !m || typeof m !== 'object' ||
+        (m.runType !== undefined && !RUN_TYPES.includes(m.runType))))) {
+      reject(field, 'must be an array of run matchers');
+    }
+  }
+  if (result.detailLevel !== undefined && !DETAIL_LEVELS.includes(result.detailLevel)) {
+    reject('detailLevel', `unknown value "${result.detailLevel}"`);
+  }
+  if (result.semconvStability !== undefined &&
+      !['default', 'gen_ai_latest_experimental'].includes(result.semconvStability)) {
+    reject('semconvStability', `unknown value "${result.semconvStability}"`);
+  }
+  for (const field of ['associationMetadataKeys', 'associationTags', 'baggageKeys', 'internalRunnables'] as const) {
+    const value = result[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some((k) => typeof k !== 'string'))) {
+      reject(field, 'must be an array of strings');
+    }
+  }
+  if (result.providerAdapters !== undefined &&
+      (!Array.isArray(result.providerAdapters) ||
+       result.providerAdapters.some((a) => typeof a?.system !== 'string' || typeof a?.matches !== 'function'))) {
+    reject('providerAdapters', 'every adapter needs a system and a matches function');
+  }
+  for (const [model, price] of Object.entries(result.modelPrices ?? {})) {
+    if (!price || !_isNonNegativeNumber(price.input) || !_isNonNegativeNumber(price.output) ||
+        (price.cachedInput !== undefined && !_isNonNegativeNumber(price.cachedInput)) ||
+        (price.reasoning !== undefined && !_isNonNegativeNumber(price.reasoning))) {
+      reject('modelPrices', `invalid price for "${model}"`);
+      break;
+    }
+  }
+  if (result.tenantMetadataKey !== undefined &&
+      (typeof result.tenantMetadataKey !== 'string' || result.tenantMetadataKey === '')) {
+    reject('tenantMetadataKey', 'must be a non-empty string');
+  }
+  if (result.tracerProviderResolver !== undefined && typeof result.tracerProviderResolver !== 'function') {
+    reject('tracerProviderResolver', 'must be a function');
+  }
+  for (const field of ['onSpanStart', 'onSpanEnd', 'onError'] as const) {
+    if (result[field] !== undefined && typeof result[field] !== 'function') {
+      reject(field, 'must be a function');
+    }
+  }
+
+  return { config: result, errors };
+}
+
+/**
+ * Validate a config and apply the environment overrides on top of it
+ */
+export function resolveConfig(
+  config: LangChainInstrumentationConfig
+): { config: LangChainInstrumentationConfig; errors: string[] } {
+  const validated = validateConfig(config);
+  const env = validateConfig(configFromEnv() as LangChainInstrumentationConfig);
+  return {
+    config: { ...validated.config, ...env.config },
+    errors: [...validated.errors, ...env.errors.map((e) => `environment ${e}`)],
+  };
+}
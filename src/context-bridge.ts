@@ -0,0 +1,134 @@
+import { context, createContextKey } from '@opentelemetry/api';
+import type { Context } from '@opentelemetry/api';
+
+/**
+ * A slot created around each runnable invocation. The callback handler fills
+ * it with the context of the run it starts, so the work executed afterwards
+ * inside the same invocation sees the run's span as the active span.
+ */
+export interface RunContextSlot {
+  context?: Context;
+  // Ends the run that claimed the slot when its stream is closed early
+  cancel?: () => void;
+}
+
+const RUN_CONTEXT_SLOT_KEY = createContextKey('langchain run context slot');
+
+/**
+ * A context that defers to the run context once the slot has been filled and
+ * to the caller's context until then
+ */
+class DeferredRunContext implements Context {
+  private parent: Context;
+  private slot: RunContextSlot;
+
+  constructor(parent: Context, slot: RunContextSlot) {
+    this.parent = parent;
+    this.slot = slot;
+  }
+
+  private _resolve(): Context {
+    return this.slot.context ?? this.parent;
+  }
+
+  getValue(key: symbol): unknown {
+    return this._resolve().getValue(key);
+  }
+
+  setValue(key: symbol, value: unknown): Context {
+    return this._resolve().setValue(key, value);
+  }
+
+  deleteValue(key: symbol): Context {
+    return this._resolve().deleteValue(key);
+  }
+}
+
+/**
+ * Claim the slot of the innermost runnable invocation for a new run. Returns
+ * false when there is no slot or another run already owns it.
+ */
+export function claimRunContextSlot(runContext: Context, cancel?: () => void): boolean {
+  const slot = context.active().getValue(RUN_CONTEXT_SLOT_KEY) as RunContextSlot | undefined;
+  if (!slot || slot.context) {
+    return false;
+  }
+  slot.context = runContext;
+  slot.cancel = cancel;
+  return true;
+}
+
+function _createRunContext(slot: RunContextSlot = {}): Context {
+  const parent = context.active().setValue(RUN_CONTEXT_SLOT_KEY, slot);
+  return new DeferredRunContext(parent, slot);
+}
+
+type AnyFunction = (...args: any[]) => any;
+
+/**
+ * Wrap a method returning a value or promise so it runs inside a fresh run context
+ */
+export function wrapInvoke(original: AnyFunction): AnyFunction {
+  return function (this: unknown, ...args: any[]) {
+    return context.with(_createRunContext(), () => original.apply(this, args));
+  };
+}
+
+/**
+ * Wrap an async generator method so every step runs inside a fresh run context.
+ * Errors thrown into the stream are forwarded to the wrapped generator. A
+ * consumer that stops early closes the wrapped generator, whose run LangChain
+ * then never ends, so the run is cancelled.
+ */
+export function wrapStream(original: AnyFunction): AnyFunction {
+  return async function* (this: unknown, ...args: any[]): AsyncGenerator<any, any, any> {
+    const slot: RunContextSlot = {};
+    const runContext = _createRunContext(slot);
+    const iterator: AsyncGenerator = context.with(runContext, () => original.apply(this, args));
+    // Set once the wrapped generator has finished or failed on its own
+    let settled = false;
+    try {
+      let next = await context.with(runContext, () => iterator.next());
+      while (!next.done) {
+        let value: unknown;
+        try {
+          value = yield next.value;
+        } catch (error) {
+          next = await context.with(runContext, () => iterator.throw(error));
+          continue;
+        }
+        next = await context.with(runContext, () => iterator.next(value));
+      }
+      settled = true;
+      return next.value;
+    } catch (error) {
+      settled = true;
+      throw error;
+    } finally {
+      if (!settled) {
+        await context.with(runContext, () => iterator.return?.(undefined));
+        slot.cancel?.();
+      }
+    }
+  };
+}
+
+/**
+ * Entry points that execute a run, by exported class name. Only methods the
+ * class defines itself are listed so inherited implementations are not shadowed.
+ */
+export const RUN_CONTEXT_METHODS: Record<string, { invoke?: string[]; stream?: string[] }> = {
+  Runnable: {
+    invoke: ['_callWithConfig'],
+    stream: ['_transformStreamWithConfig', '_streamIterator'],
+  },
+  RunnableSequence: { invoke: ['invoke'], stream: ['_streamIterator'] },
+  RunnableLambda: { invoke: ['invoke'] },
+  RunnableMap: { invoke: ['invoke'] },
+  RunnableBranch: { invoke: ['invoke'] },
+  RunnableWithFallbacks: { invoke: ['invoke'] },
+  BaseChatModel: { invoke: ['invoke'], stream: ['_streamIterator'] },
+  BaseLLM: { invoke: ['invoke'], stream: ['_streamIterator'] },
+  StructuredTool: { invoke: ['invoke'] },
+  BaseRetriever: { invoke: ['invoke'] },
+};
@@ -0,0 +1,135 @@
+/**
+ * Price of a model in US dollars per million tokens. Cached input and
+ * reasoning tokens fall back to the input and output prices when unset.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput?: number;
+  reasoning?: number;
+}
+
+/**
+ * Token counts of one model call. Cached input tokens are part of the input
+ * tokens and reasoning tokens part of the output tokens, as LangChain reports them.
+ */
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedInputTokens?: number;
+  reasoningTokens?: number;
+}
+
+/**
+ * List prices of common models. Prices change, so override or extend them
+ * with the modelPrices config option.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1': { input: 15, output: 60, cachedInput: 7.5 },
+  'o1-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  'o3': { input: 2, output: 8, cachedInput: 0.5 },
+  'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+  'claude-3-opus': { input: 15, output: 75, cachedInput: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cachedInput: 0.03 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'mistral-large': { input: 2, output: 6 },
+  'mistral-small': { input: 0.2, output: 0.6 },
+  'deepseek-chat': { input: 0.27, output: 1.1, cachedInput: 0.07 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19, cachedInput: 0.14 },
+};
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+// What may follow a listed name in a model id: dates, revisions and release tags,
+// e.g. -2024-08-06, @20240620, -20241022-v2:0, -002, -latest or -preview-05-20
+const VERSION_SUFFIX = /^(?:[-@:](?:\d+|v\d+|latest|preview|exp))+$/;
+
+/**
+ * Names to try for a model id. Providers prefix ids with a path
+ * (models/gemini-1.5-pro) or a vendor (us.anthropic.claude-3-5-sonnet-...).
+ */
+function _candidateNames(model: string): string[] {
+  const name = model.trim().toLowerCase();
+  const withoutPath = name.slice(name.lastIndexOf('/') + 1);
+  const withoutVendor = withoutPath.replace(/^(?:[a-z]{2}\.)?[a-z-]+\.(?=[a-z])/, '');
+  return [...new Set([name, withoutPath, withoutVendor])];
+}
+
+/**
+ * Estimates what a model call cost from its token usage
+ */
+export class CostCalculator {
+  private prices: Record<string, ModelPrice>;
+  // Longest first, so dated and suffixed ids match their most specific entry
+  private priceNames: string[];
+
+  constructor(prices: Record<string, ModelPrice> = {}) {
+    this.prices = Object.fromEntries(
+      Object.entries({ ...DEFAULT_MODEL_PRICES, ...prices }).map(([name, price]) => [name.toLowerCase(), price])
+    );
+    this.priceNames = Object.keys(this.prices).sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * The price of a model, matched exactly or by the longest listed name
+   * followed only by a version suffix. Variants such as gpt-4.5-preview or
+   * o1-pro do not inherit the price of gpt-4 or o1.
+   */
+  public priceOf(model: string): ModelPrice | undefined {
+    const candidates = _candidateNames(model);
+    for (const candidate of candidates) {
+      if (this.prices[candidate]) {
+        return this.prices[candidate];
+      }
+    }
+    for (const candidate of candidates) {
+      const name = this.priceNames.find(
+        (n) => candidate.startsWith(n) && VERSION_SUFFIX.test(candidate.slice(n.length))
+      );
+      if (name) {
+        return this.prices[name];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Cost in US dollars, or undefined when the model has no price or the call
+   * reported no usage
+   */
+  public estimate(model: string, usage: TokenUsage): number | undefined {
+    const price = this.priceOf(model);
+    if (!price || (usage.inputTokens === undefined && usage.outputTokens === undefined)) {
+      return undefined;
+    }
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+    const cachedInputTokens = Math.min(usage.cachedInputTokens ?? 0, inputTokens);
+    const reasoningTokens = Math.min(usage.reasoningTokens ?? 0, outputTokens);
+
+    const cost =
+      (inputTokens - cachedInputTokens) * price.input +
+      cachedInputTokens * (price.cachedInput ?? price.input) +
+      (outputTokens - reasoningTokens) * price.output +
+      reasoningTokens * (price.reasoning ?? price.output);
+    return cost / TOKENS_PER_PRICE_UNIT;
+  }
+}
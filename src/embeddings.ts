@@ -0,0 +1,121 @@
+import { context, createContextKey } from '@opentelemetry/api';
+import type { OpenTelemetryCallbackHandler } from './callback-handler.js';
+
+/**
+ * Returns the handler that traces embeddings calls, or undefined while the
+ * instrumentation is disabled
+ */
+export type EmbeddingsHandlerGetter = () => OpenTelemetryCallbackHandler | undefined;
+
+const EMBEDDINGS_METHODS = ['embedQuery', 'embedDocuments'];
+// Methods that return the raw provider response, which carries the token usage
+const EMBEDDINGS_REQUEST_METHODS = ['embeddingWithRetry'];
+const INSTRUMENTED_KEY = Symbol('opentelemetry.langchain.embeddings.instrumented');
+const ORIGINAL_CLASS_KEY = Symbol('opentelemetry.langchain.embeddings.original');
+// Set while an embeddings call is traced, so embedQuery delegating to embedDocuments yields one span.
+// Holds the usage of the call.
+const EMBEDDINGS_ACTIVE_KEY = createContextKey('langchain embeddings call');
+
+/**
+ * Token usage of a traced embeddings call, summed over the provider requests it made
+ */
+export interface EmbeddingsUsage {
+  inputTokens?: number;
+}
+
+type AnyFunction = (...args: any[]) => any;
+
+function _addUsage(usage: EmbeddingsUsage, response: any): void {
+  const tokens = response?.usage?.prompt_tokens ?? response?.usage?.input_tokens ?? response?.usage?.total_tokens;
+  if (typeof tokens === 'number' && Number.isFinite(tokens)) {
+    usage.inputTokens = (usage.inputTokens ?? 0) + tokens;
+  }
+}
+
+function _wrapRequestMethod(original: AnyFunction): AnyFunction {
+  return function (this: any, ...args: any[]) {
+    const usage = context.active().getValue(EMBEDDINGS_ACTIVE_KEY) as EmbeddingsUsage | undefined;
+    const result = original.apply(this, args);
+    if (usage && typeof result?.then === 'function') {
+      return result.then((response: any) => {
+        _addUsage(usage, response);
+        return response;
+      });
+    }
+    return result;
+  };
+}
+
+function _wrapEmbeddingsMethod(
+  method: string,
+  original: AnyFunction,
+  getHandler: EmbeddingsHandlerGetter
+): AnyFunction {
+  return function (this: any, ...args: any[]) {
+    const handler = getHandler();
+    if (!handler || context.active().getValue(EMBEDDINGS_ACTIVE_KEY)) {
+      return original.apply(this, args);
+    }
+    const inputCount = method === 'embedQuery' ? 1 : (Array.isArray(args[0]) ? args[0].length : 0);
+    return handler.handleEmbeddings(this, inputCount, (usage) =>
+      context.with(context.active().setValue(EMBEDDINGS_ACTIVE_KEY, usage), () => original.apply(this, args))
+    );
+  };
+}
+
+/**
+ * Trace the embedQuery and embedDocuments methods of one Embeddings instance.
+ * Subclasses define these methods themselves, so they are wrapped per instance.
+ */
+export function instrumentEmbeddings(embeddings: any, getHandler: EmbeddingsHandlerGetter): void {
+  if (!embeddings || embeddings[INSTRUMENTED_KEY]) {
+    return;
+  }
+  for (const method of EMBEDDINGS_METHODS) {
+    const original = embeddings[method];
+    if (typeof original !== 'function') {
+      continue;
+    }
+    Object.defineProperty(embeddings, method, {
+      value: _wrapEmbeddingsMethod(method, original, getHandler),
+      configurable: true,
+      writable: true,
+      enumerable: false,
+    });
+  }
+  for (const method of EMBEDDINGS_REQUEST_METHODS) {
+    const original = embeddings[method];
+    if (typeof original !== 'function') {
+      continue;
+    }
+    Object.defineProperty(embeddings, method, {
+      value: _wrapRequestMethod(original),
+      configurable: true,
+      writable: true,
+      enumerable: false,
+    });
+  }
+  Object.defineProperty(embeddings, INSTRUMENTED_KEY, { value: true });
+}
+
+/**
+ * Build a drop-in replacement for the Embeddings base class that instruments
+ * every instance of the integrations extending it
+ */
+export function createInstrumentedEmbeddingsClass(Original: any, getHandler: EmbeddingsHandlerGetter): any {
+  class Embeddings extends Original {
+    constructor(...args: any[]) {
+      super(...args);
+      instrumentEmbeddings(this, getHandler);
+    }
+  }
+  Object.defineProperty(Embeddings, ORIGINAL_CLASS_KEY, { value: Original });
+  return Embeddings;
+}
+
+/**
+ * The class a replacement was built from, or undefined for any other class
+ */
+export function getOriginalEmbeddingsClass(Embeddings: any): any {
+  return Embeddings?.[ORIGINAL_CLASS_KEY];
+}
@@ -0,0 +1,147 @@
+import type { Attributes } from '@opentelemetry/api';
+import type { Serialized } from '@langchain/core/load/serializable';
+import { Span_Attributes } from './span-attributes.js';
+
+/**
+ * Provider independent classification of model errors recorded as error.type.
+ * Errors that fit none of them keep their class name.
+ */
+export enum ErrorTypeValues {
+  RATE_LIMIT = 'rate_limit',
+  TIMEOUT = 'timeout',
+  CONTEXT_LENGTH_EXCEEDED = 'context_length_exceeded',
+  CONTENT_FILTER = 'content_filter',
+  AUTH = 'auth',
+  OUTPUT_PARSING = 'output_parsing_failure',
+}
+
+// Tag LangChain's RunnableRetry puts on the runs of attempts after the first
+const RETRY_ATTEMPT_TAG = /^retry:attempt:(\d+)$/;
+
+// Response headers providers use to report rate limits, matched by prefix
+const RATE_LIMIT_HEADER_PREFIXES = ['retry-after', 'x-ratelimit-', 'ratelimit-', 'anthropic-ratelimit-'];
+
+function _className(serialized: Serialized | undefined): string | undefined {
+  const id = serialized?.id;
+  return Array.isArray(id) ? id[id.length - 1] : undefined;
+}
+
+export function isRetryRun(serialized: Serialized | undefined): boolean {
+  return _className(serialized) === 'RunnableRetry';
+}
+
+export function isFallbacksRun(serialized: Serialized | undefined): boolean {
+  return _className(serialized) === 'RunnableWithFallbacks';
+}
+
+/**
+ * The attempt number of a run started by RunnableRetry, the first attempt is not tagged
+ */
+export function getRetryAttempt(tags: string[] = []): number | undefined {
+  for (const tag of tags) {
+    const match = RETRY_ATTEMPT_TAG.exec(tag);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The HTTP status of a failed provider call, wherever the provider SDK put it
+ */
+export function getHttpStatus(error: any): number | undefined {
+  for (const status of [error?.status, error?.statusCode, error?.response?.status, error?.$metadata?.httpStatusCode]) {
+    if (typeof status === 'number' && status >= 100 && status < 600) {
+      return status;
+    }
+  }
+  return undefined;
+}
+
+// Fetch Headers or a plain object
+function _headerEntries(headers: any): [string, unknown][] {
+  if (typeof headers.forEach === 'function' && typeof headers.get === 'function') {
+    const entries: [string, unknown][] = [];
+    headers.forEach((value: unknown, name: string) => entries.push([name, value]));
+    return entries;
+  }
+  return Object.entries(headers);
+}
+
+/**
+ * Retry-After and rate limit headers of a failed provider call, keyed by lower case name
+ */
+export function getRateLimitHeaders(error: any): Record<string, string> {
+  const headers = error?.headers ?? error?.response?.headers;
+  const result: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') {
+    return result;
+  }
+  for (const [name, value] of _headerEntries(headers)) {
+    const key = name.toLowerCase();
+    if (value !== undefined && value !== null && RATE_LIMIT_HEADER_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+      result[key] = String(value);
+    }
+  }
+  return result;
+}
+
+function _matches(error: any, names: string[], codes: string[], statuses: number[], message: RegExp): boolean {
+  const status = getHttpStatus(error);
+  const code = error?.code ?? error?.error?.code ?? error?.error?.type;
+  return names.includes(error?.name) || names.includes(error?.constructor?.name) ||
+    codes.includes(code) || codes.includes(error?.lc_error_code) ||
+    (status !== undefined && statuses.includes(status)) ||
+    message.test(String(error?.message ?? ''));
+}
+
+/**
+ * Map a model or provider error onto the error type taxonomy. The context
+ * length and content filter checks come first, providers report both as
+ * plain 400 responses.
+ */
+export function classifyError(error: any): ErrorTypeValues | undefined {
+  if (!error) {
+    return undefined;
+  }
+  if (error.name === 'OutputParserException' || error.lc_error_code === 'OUTPUT_PARSING_FAILURE') {
+    return ErrorTypeValues.OUTPUT_PARSING;
+  }
+  if (_matches(error, [], ['context_length_exceeded', 'string_above_max_length'], [413],
+    /context[ _]length|context window|maximum context|prompt is too long|too many (input )?tokens/i)) {
+    return ErrorTypeValues.CONTEXT_LENGTH_EXCEEDED;
+  }
+  if (_matches(error, [], ['content_filter', 'content_policy_violation'], [],
+    /content[ _](filter|management policy|policy)|blocked due to safety/i)) {
+    return ErrorTypeValues.CONTENT_FILTER;
+  }
+  if (_matches(error, ['RateLimitError', 'ThrottlingException'], ['rate_limit_exceeded', 'MODEL_RATE_LIMIT'], [429],
+    /rate[ _-]?limit|too many requests|throttl/i)) {
+    return ErrorTypeValues.RATE_LIMIT;
+  }
+  if (_matches(error, ['TimeoutError', 'APIConnectionTimeoutError'], ['ETIMEDOUT', 'ESOCKETTIMEDOUT'], [408, 504],
+    /timed? ?out/i)) {
+    return ErrorTypeValues.TIMEOUT;
+  }
+  if (_matches(error, ['AuthenticationError', 'PermissionDeniedError'], ['MODEL_AUTHENTICATION', 'invalid_api_key'],
+    [401, 403], /invalid (x-)?api[ _-]?key|unauthori[sz]ed|authentication/i)) {
+    return ErrorTypeValues.AUTH;
+  }
+  return undefined;
+}
+
+/**
+ * HTTP status and rate limit headers of a failed provider call, as span attributes
+ */
+export function httpErrorAttributes(error: any): Attributes {
+  const attributes: Attributes = {};
+  const status = getHttpStatus(error);
+  if (status !== undefined) {
+    attributes[Span_Attributes.HTTP_RESPONSE_STATUS_CODE] = status;
+  }
+  for (const [name, value] of Object.entries(getRateLimitHeaders(error))) {
+    attributes[`${Span_Attributes.HTTP_RESPONSE_HEADER_PREFIX}${name}`] = [value];
+  }
+  return attributes;
+}
@@ -0,0 +1,219 @@
+import { context, trace } from '@opentelemetry/api';
+import type { Span } from '@opentelemetry/api';
+import type { AnyValue, AnyValueMap, Logger } from '@opentelemetry/api-logs';
+import type { BaseMessage } from '@langchain/core/messages';
+import type { Generation } from '@langchain/core/outputs';
+import { Span_Attributes } from './span-attributes.js';
+import type { Sanitizer } from './redaction.js';
+
+export const Event_Names = {
+  GEN_AI_SYSTEM_MESSAGE: 'gen_ai.system.message',
+  GEN_AI_USER_MESSAGE: 'gen_ai.user.message',
+  GEN_AI_ASSISTANT_MESSAGE: 'gen_ai.assistant.message',
+  GEN_AI_TOOL_MESSAGE: 'gen_ai.tool.message',
+  GEN_AI_CHOICE: 'gen_ai.choice',
+};
+
+// Map LangChain message types onto the GenAI event names
+const MESSAGE_EVENT_NAMES: Record<string, string> = {
+  system: Event_Names.GEN_AI_SYSTEM_MESSAGE,
+  developer: Event_Names.GEN_AI_SYSTEM_MESSAGE,
+  human: Event_Names.GEN_AI_USER_MESSAGE,
+  generic: Event_Names.GEN_AI_USER_MESSAGE,
+  ai: Event_Names.GEN_AI_ASSISTANT_MESSAGE,
+  tool: Event_Names.GEN_AI_TOOL_MESSAGE,
+  function: Event_Names.GEN_AI_TOOL_MESSAGE,
+};
+
+const MESSAGE_ROLES: Record<string, string> = {
+  system: 'system',
+  developer: 'system',
+  human: 'user',
+  generic: 'user',
+  ai: 'assistant',
+  tool: 'tool',
+  function: 'tool',
+};
+
+function _messageType(message: any): string {
+  if (typeof message?.getType === 'function') {
+    return message.getType();
+  }
+  if (typeof message?._getType === 'function') {
+    return message._getType();
+  }
+  return message?.role ?? message?.type ?? 'generic';
+}
+
+/**
+ * The GenAI role of a LangChain message, e.g. `user` for a HumanMessage
+ */
+export function getMessageRole(message: BaseMessage): string {
+  const type = _messageType(message);
+  return MESSAGE_ROLES[type] ?? type;
+}
+
+function _toAnyValue(value: any): AnyValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(_toAnyValue);
+  }
+  if (typeof value === 'object') {
+    const result: AnyValueMap = {};
+    for (const [k, v] of Object.entries(value)) {
+      if (v !== undefined) {
+        result[k] = _toAnyValue(v);
+      }
+    }
+    return result;
+  }
+  return String(value);
+}
+
+/**
+ * Convert message content (a string or a list of content parts) into an event value
+ */
+function _serializeContent(content: any): AnyValue {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map((part) => {
+      if (typeof part === 'string') {
+        return { type: 'text', text: part };
+      }
+      return _toAnyValue(part);
+    });
+  }
+  return _toAnyValue(content);
+}
+
+function _serializeToolCalls(toolCalls: any[] | undefined): AnyValue[] | undefined {
+  if (!toolCalls || toolCalls.length === 0) {
+    return undefined;
+  }
+  return toolCalls.map((toolCall) => ({
+    id: toolCall.id ?? null,
+    type: 'function',
+    function: {
+      name: toolCall.name,
+      arguments: typeof toolCall.args === 'string' ? toolCall.args : JSON.stringify(toolCall.args ?? {}),
+    },
+  }));
+}
+
+/**
+ * Build the event body for a single LangChain message
+ */
+export function serializeMessage(message: BaseMessage): AnyValueMap {
+  const body: AnyValueMap = {
+    role: getMessageRole(message),
+    content: _serializeContent((message as any).content),
+  };
+
+  const toolCalls = _serializeToolCalls((message as any).tool_calls);
+  if (toolCalls) {
+    body.tool_calls = toolCalls;
+  }
+  if ((message as any).tool_call_id) {
+    body.id = (message as any).tool_call_id;
+  }
+  return body;
+}
+
+/**
+ * Emits GenAI prompt and completion events through a logger
+ */
+export class GenAIEventEmitter {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  private _emit(
+    span: Span,
+    eventName: string,
+    body: AnyValueMap,
+    system?: string,
+    sanitizer?: Sanitizer
+  ): void {
+    this.logger.emit({
+      eventName,
+      body: sanitizer ? sanitizer.sanitizeValue(body, eventName) : body,
+      attributes: system ? { [Span_Attributes.GEN_AI_SYSTEM]: system } : {},
+      context: trace.setSpan(context.active(), span),
+    });
+  }
+
+  /**
+   * Emit one event per input message of a chat model run
+   */
+  public emitMessages(
+    span: Span,
+    messages: BaseMessage[],
+    system?: string,
+    sanitizer?: Sanitizer
+  ): void {
+    for (const message of messages) {
+      const type = _messageType(message);
+      const eventName = MESSAGE_EVENT_NAMES[type] ?? Event_Names.GEN_AI_USER_MESSAGE;
+      const { role, ...body } = serializeMessage(message);
+      // The role is implied by the event name unless the message type is unusual
+      this._emit(span, eventName, MESSAGE_EVENT_NAMES[type] ? body : { role, ...body }, system, sanitizer);
+    }
+  }
+
+  /**
+   * Emit user message events for the raw prompts of a text completion run
+   */
+  public emitPrompts(span: Span, prompts: string[], system?: string, sanitizer?: Sanitizer): void {
+    for (const prompt of prompts) {
+      this._emit(span, Event_Names.GEN_AI_USER_MESSAGE, { content: prompt }, system, sanitizer);
+    }
+  }
+
+  /**
+   * Emit a choice event for every generation returned by the model
+   */
+  public emitChoices(
+    span: Span,
+    generations: Generation[][],
+    system?: string,
+    sanitizer?: Sanitizer
+  ): void {
+    let index = 0;
+    for (const batch of generations) {
+      for (const generation of batch) {
+        const message = (generation as any).message;
+        const finishReason = generation.generationInfo?.finish_reason
+          ?? generation.generationInfo?.finishReason
+          ?? message?.response_metadata?.finish_reason
+          ?? message?.response_metadata?.stop_reason;
+
+        let messageBody: AnyValueMap;
+        if (message) {
+          const { role, ...body } = serializeMessage(message);
+          messageBody = body;
+        } else {
+          messageBody = { content: generation.text };
+        }
+
+        this._emit(span, Event_Names.GEN_AI_CHOICE, {
+          index,
+          finish_reason: finishReason ?? 'unknown',
+          message: messageBody,
+        }, system, sanitizer);
+        index++;
+      }
+    }
+  }
+}
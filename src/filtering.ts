@@ -0,0 +1,147 @@
+import type { RunType } from './config.js';
+
+/**
+ * How much of a run is traced. Runs pick it from their metadata, which
+ * LangChain passes down to every descendant.
+ *  - `none`: no spans
+ *  - `minimal`: top-level runs and model, tool, retriever, embeddings and agent runs
+ *  - `standard`: every run the filters keep
+ *  - `full`: every run the filters keep, internal runnables included
+ */
+export type DetailLevel = 'none' | 'minimal' | 'standard' | 'full';
+
+export const DETAIL_LEVELS: DetailLevel[] = ['none', 'minimal', 'standard', 'full'];
+
+/**
+ * Run metadata key holding the detail level of a run
+ */
+export const DETAIL_LEVEL_METADATA_KEY = 'otel_detail_level';
+
+/**
+ * Selects runs by name, tag and run type. Every field given must match.
+ */
+export interface RunMatcher {
+  name?: string | RegExp;
+  tag?: string;
+  runType?: RunType;
+}
+
+/**
+ * What the filters know about a run when it starts
+ */
+export interface RunFilterInfo {
+  runType: RunType;
+  name: string;
+  serialized?: { id?: string[] };
+  tags?: string[];
+  metadata?: Record<string, any>;
+  // Runs without a traced ancestor
+  topLevel: boolean;
+}
+
+/**
+ * Glue runnables LCEL and LangGraph create around user code. Parsers are
+ * matched by their OutputParser suffix.
+ */
+export const DEFAULT_INTERNAL_RUNNABLES = [
+  'RunnableSequence',
+  'RunnableLambda',
+  'RunnableParallel',
+  'RunnableMap',
+  'RunnablePassthrough',
+  'RunnableAssign',
+  'RunnablePick',
+  'RunnableEach',
+  'ChannelWrite',
+  'ChannelRead',
+];
+
+// LangChain and LangGraph tag runs they do not want to show in traces
+const HIDDEN_TAG = 'langsmith:hidden';
+
+function _matchesRun(matcher: RunMatcher, run: RunFilterInfo): boolean {
+  if (matcher.runType !== undefined && matcher.runType !== run.runType) {
+    return false;
+  }
+  if (matcher.tag !== undefined && !(run.tags ?? []).includes(matcher.tag)) {
+    return false;
+  }
+  if (matcher.name !== undefined) {
+    return typeof matcher.name === 'string' ? matcher.name === run.name : matcher.name.test(run.name);
+  }
+  return true;
+}
+
+export interface RunFilterOptions {
+  skipInternalRunnables?: boolean;
+  internalRunnables?: string[];
+  includeRuns?: RunMatcher[];
+  excludeRuns?: RunMatcher[];
+  detailLevel?: DetailLevel;
+}
+
+/**
+ * Decides which runs get a span. Filtered runs are skipped by the handler,
+ * which attaches their children to the nearest traced ancestor.
+ */
+export class RunFilter {
+  private skipInternalRunnables: boolean;
+  private internalRunnables: string[];
+  private includeRuns: RunMatcher[];
+  private excludeRuns: RunMatcher[];
+  private detailLevel: DetailLevel;
+
+  constructor(options: RunFilterOptions = {}) {
+    this.skipInternalRunnables = options.skipInternalRunnables ?? false;
+    this.internalRunnables = options.internalRunnables ?? DEFAULT_INTERNAL_RUNNABLES;
+    this.includeRuns = options.includeRuns ?? [];
+    this.excludeRuns = options.excludeRuns ?? [];
+    this.detailLevel = options.detailLevel ?? 'standard';
+  }
+
+  /**
+   * The detail level of a run, from its metadata or the configured default
+   */
+  public detailLevelOf(metadata: Record<string, any> = {}): DetailLevel {
+    const level = metadata[DETAIL_LEVEL_METADATA_KEY];
+    return DETAIL_LEVELS.includes(level) ? level : this.detailLevel;
+  }
+
+  /**
+   * Runs LangChain or LangGraph create as plumbing, under their default name.
+   * Named runs, like LangGraph node steps, are what users care about and are kept.
+   */
+  public isInternalRunnable(run: RunFilterInfo): boolean {
+    if ((run.tags ?? []).includes(HIDDEN_TAG)) {
+      return true;
+    }
+    const id = run.serialized?.id;
+    const className = Array.isArray(id) ? id[id.length - 1] : undefined;
+    if (!className) {
+      return false;
+    }
+    const internal = this.internalRunnables.includes(className) || className.endsWith('OutputParser');
+    return internal && (run.name === className || run.name.startsWith(`${className}<`));
+  }
+
+  public shouldTrace(run: RunFilterInfo): boolean {
+    const detailLevel = this.detailLevelOf(run.metadata);
+    if (detailLevel === 'none') {
+      return false;
+    }
+    if (detailLevel === 'minimal' && !run.topLevel && run.runType === 'chain') {
+      return false;
+    }
+    if (this.includeRuns.length > 0 && !this.includeRuns.some((matcher) => _matchesRun(matcher, run))) {
+      return false;
+    }
+    if (this.excludeRuns.some((matcher) => _matchesRun(matcher, run))) {
+      return false;
+    }
+    // Top-level runs are kept so one invocation stays one trace
+    if (!this.skipInternalRunnables || detailLevel === 'full' || run.topLevel || run.runType !== 'chain') {
+      return true;
+    }
+    return !this.isInternalRunnable(run);
+  }
+}
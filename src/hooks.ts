@@ -0,0 +1,44 @@
+import type { Span } from '@opentelemetry/api';
+import type { Serialized } from '@langchain/core/load/serializable';
+import type { RunType } from './config.js';
+
+/**
+ * The LangChain run behind a span, as passed to the span hooks
+ */
+export interface RunInfo {
+  // Embeddings calls are not LangChain runs and have no run id
+  runId?: string;
+  parentRunId?: string;
+  runType: RunType;
+  name: string;
+  serialized?: Serialized;
+  // Messages, prompts, chain inputs, tool input or retriever query, as LangChain reported them
+  inputs?: unknown;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Called once a span is started and its attributes are set
+ */
+export type SpanStartHook = (span: Span, runInfo: RunInfo) => void;
+
+/**
+ * Called right before a span ends, with the run output when it succeeded
+ */
+export type SpanEndHook = (span: Span, runInfo: RunInfo, output: unknown) => void;
+
+/**
+ * Called when a run fails, before onSpanEnd
+ */
+export type SpanErrorHook = (span: Span, runInfo: RunInfo, error: unknown) => void;
+
+/**
+ * Hooks to add attributes of your own to the spans of LangChain runs.
+ * Exceptions thrown by hooks are caught and reported through diag.
+ */
+export interface SpanHooks {
+  onSpanStart?: SpanStartHook;
+  onSpanEnd?: SpanEndHook;
+  onError?: SpanErrorHook;
+}
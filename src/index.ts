@@ -2,11 +2,78 @@
 import { LangChainInstrumentation } from './instrumentation.js';
 export { LangChainInstrumentation } from './instrumentation.js';
 
+// Export configuration
+export type { LangChainInstrumentationConfig, RunType, SemconvStability } from './config.js';
+export { CAPTURE_MESSAGE_CONTENT_ENV, Config_Env_Vars, DEFAULT_SPAN_NAME_TEMPLATES } from './config.js';
+
+// Export run correlation
+export {
+  Association_Attributes,
+  getAssociationProperties,
+  withAssociationProperties,
+} from './association.js';
+export type { AssociationProperties } from './association.js';
+
 // Export the callback handler
 export { OpenTelemetryCallbackHandler } from './callback-handler.js';
 
 // Export span attributes constants
-export { GenAIOperationValues, Span_Attributes } from './span-attributes.js';
+export { GenAIOperationValues, Latest_Semconv_Attributes, Span_Attributes } from './span-attributes.js';
+
+// Export metric names and instruments
+export { GenAIMetrics, GenAITokenTypeValues, InternalErrorTypeValues, Metric_Names } from './metrics.js';
+
+// Export GenAI content events
+export { Event_Names, GenAIEventEmitter } from './events.js';
+
+// Export provider adapters
+export { DEFAULT_PROVIDER_ADAPTERS, ProviderRegistry } from './providers.js';
+export type {
+  LLMRequestInfo,
+  LLMResponseInfo,
+  ModelDescriptor,
+  ProviderAdapter,
+  ToolDefinition,
+} from './providers.js';
+
+// Export LangGraph run tracking
+export { InterruptedRunStore } from './langgraph.js';
+export type { LangGraphNodeInfo } from './langgraph.js';
+
+// Export tool span classifications
+export { GenAIToolTypeValues, ToolErrorTypeValues } from './tools.js';
+
+// Export run filtering and sampling
+export { DEFAULT_INTERNAL_RUNNABLES, DETAIL_LEVEL_METADATA_KEY, RunFilter } from './filtering.js';
+export type { DetailLevel, RunFilterInfo, RunFilterOptions, RunMatcher } from './filtering.js';
+export { ContentAwareSamplingProcessor } from './sampling.js';
+export type { ContentAwareSamplingOptions } from './sampling.js';
+
+// Export span hooks
+export type { RunInfo, SpanEndHook, SpanErrorHook, SpanHooks, SpanStartHook } from './hooks.js';
+
+// Export cost estimation
+export { CostCalculator, DEFAULT_MODEL_PRICES } from './cost.js';
+export type { ModelPrice, TokenUsage } from './cost.js';
+
+// Export error classification
+export { ErrorTypeValues, classifyError } from './errors.js';
+
+// Export prompt template tracking
+export { Prompt_Hub_Metadata_Keys } from './prompts.js';
+export type { PromptTemplateInfo } from './prompts.js';
+
+// Export payload serialization
+export { CONTENT_FORMATS, Serializer } from './serialization.js';
+export type { ContentFormat, JSONValue, SerializerOptions } from './serialization.js';
+
+// Export payload redaction
+export { Sanitizer } from './redaction.js';
+export type { BuiltinDetector, Redactor, SanitizerOptions } from './redaction.js';
+
+// Export run lifecycle tracking
+export { ABORT_REASON_ATTRIBUTE, RunAbortReason, RunRegistry } from './run-registry.js';
+export type { RunRegistryOptions } from './run-registry.js';
 
 // Export package version
 export { VERSION } from './version.js';
@@ -1,32 +1,68 @@
-import { InstrumentationBase } from '@opentelemetry/instrumentation';
-import type { Instrumentation, InstrumentationConfig } from '@opentelemetry/instrumentation';
-import  { trace } from '@opentelemetry/api';
-import type { MeterProvider, TracerProvider } from '@opentelemetry/api';
+import {
+  InstrumentationBase,
+  InstrumentationNodeModuleDefinition,
+  InstrumentationNodeModuleFile,
+  isWrapped,
+} from '@opentelemetry/instrumentation';
+import { diag } from '@opentelemetry/api';
+import type { MeterProvider, Tracer, TracerProvider } from '@opentelemetry/api';
 import type { LoggerProvider } from '@opentelemetry/api-logs';
 
 import { VERSION } from './version.js';
 import { OpenTelemetryCallbackHandler } from './callback-handler.js';
-import { CallbackManager } from '@langchain/core/callbacks/manager';
+import { GenAIMetrics } from './metrics.js';
+import { GenAIEventEmitter } from './events.js';
+import { Sanitizer } from './redaction.js';
+import { Serializer } from './serialization.js';
+import { ProviderRegistry } from './providers.js';
+import { CostCalculator } from './cost.js';
+import { RunAbortReason } from './run-registry.js';
+import { DEFAULT_SPAN_NAME_TEMPLATES, resolveConfig } from './config.js';
+import type { LangChainInstrumentationConfig } from './config.js';
+import { RUN_CONTEXT_METHODS, wrapInvoke, wrapStream } from './context-bridge.js';
+import { wrapToolToJSON } from './tools.js';
+import { RunFilter } from './filtering.js';
+import {
+  createInstrumentedEmbeddingsClass,
+  getOriginalEmbeddingsClass,
+  instrumentEmbeddings,
+} from './embeddings.js';
 export * from './callback-handler.js';
+export type { LangChainInstrumentationConfig } from './config.js';
 
+const SUPPORTED_VERSIONS = ['>=0.2.0 <0.4.0'];
 
-export class LangChainInstrumentation implements Instrumentation<InstrumentationConfig> {
+// @langchain/core files holding the classes we patch, published as both CJS and ESM
+const LANGCHAIN_CORE_FILES = [
+  'dist/callbacks/manager',
+  'dist/runnables/base',
+  'dist/runnables/branch',
+  'dist/language_models/chat_models',
+  'dist/language_models/llms',
+  'dist/tools/index',
+  'dist/retrievers/index',
+  'dist/embeddings',
+];
+
+interface Flushable {
+  forceFlush?: () => Promise<void>;
+}
+
+export class LangChainInstrumentation extends InstrumentationBase<LangChainInstrumentationConfig> {
   private static instance: LangChainInstrumentation;
   private handler: OpenTelemetryCallbackHandler;
-  readonly instrumentationName = 'opentelemetry-instrumentation-langchain-v2';
-  readonly instrumentationVersion = VERSION;
-  private _config: InstrumentationConfig = {};
   private _tracerProvider: TracerProvider | undefined;
   private _meterProvider: MeterProvider | undefined;
   private _loggerProvider: LoggerProvider | undefined;
+  private _manuallyInstrumented: any[] = [];
+  private _resolvedTracers = new WeakMap<TracerProvider, Tracer>();
   
-  public constructor(config: InstrumentationConfig = {}) {
-    this._config = config;
-    const tracer = trace.getTracer(this.instrumentationName, this.instrumentationVersion);
-    // const tracerProvider = trace.getTracerProvider();
-    // this.setTracerProvider(tracerProvider);
-    this.handler = new OpenTelemetryCallbackHandler(tracer);
-    this.init();
+  public constructor(config: LangChainInstrumentationConfig = {}) {
+    super('opentelemetry-instrumentation-langchain-v2', VERSION, config);
+    this.handler = new OpenTelemetryCallbackHandler(this.tracer, new GenAIMetrics(this.meter));
+    this.handler.diagLogger = this._diag;
+    this.handler.events = new GenAIEventEmitter(this.logger);
+    this._applyConfig();
   }
   
   /**
@@ -40,104 +76,362 @@ export class LangChainInstrumentation implements Instrumentation<Instrumentation
   }
   
   /**
-   * Initialize the auto-instrumentation
+   * Describe the @langchain/core files to patch when they are loaded. CommonJS
+   * files are patched as they are required. The ES module loader hook only
+   * reports package entry points, never the dist files LangChain is imported
+   * from, so ES module applications must call manuallyInstrument.
    */
-  public init(): void {
-    this.enable();
+  protected init(): InstrumentationNodeModuleDefinition {
+    const files = LANGCHAIN_CORE_FILES.flatMap((file) =>
+      ['.cjs', '.js'].map((extension) => new InstrumentationNodeModuleFile(
+        `@langchain/core/${file}${extension}`,
+        SUPPORTED_VERSIONS,
+        (moduleExports: any) => this._patch(moduleExports),
+        (moduleExports: any) => this._unpatch(moduleExports)
+      ))
+    );
+    return new InstrumentationNodeModuleDefinition(
+      '@langchain/core',
+      SUPPORTED_VERSIONS,
+      undefined,
+      undefined,
+      files
+    );
   }
-  
+
+  /**
+   * Patch LangChain modules directly. Required when @langchain/core is
+   * imported as ES modules, and when it was loaded before the instrumentation:
+   *
+   *   import * as callbacks from '@langchain/core/callbacks/manager';
+   *   import * as runnables from '@langchain/core/runnables';
+   *   instrumentation.manuallyInstrument(callbacks, runnables);
+   *
+   * Patching is idempotent, modules already patched are left as they are.
+   */
+  public manuallyInstrument(...modules: any[]): void {
+    for (const moduleExports of modules) {
+      if (!this._manuallyInstrumented.includes(moduleExports)) {
+        this._manuallyInstrumented.push(moduleExports);
+      }
+      if (this.isEnabled()) {
+        this._patch(moduleExports);
+      }
+    }
+  }
+
   /**
    * Enable the instrumentation
    */
-  public enable(): void {    
-    try {
-      // The issue is with how CallbackManager.configure works
-      // It expects a function that transforms existing handlers, not just an array
-      CallbackManager.configure((existingHandlers: any[]) => {
-        console.log("Configuring CallbackManager with handlers:", 
-                  existingHandlers.length, "existing handlers");
-        
-        // Check if our handler is already registered to avoid duplication
-        const alreadyRegistered = existingHandlers.some(
-          (          h: any) => h instanceof OpenTelemetryCallbackHandler
-        );
-        
-        if (alreadyRegistered) {
-          console.log("Handler already registered, skipping");
-          return existingHandlers;
-        }
-        
-        console.log("Adding OpenTelemetry callback handler");
-        return [...existingHandlers, this.handler];
-      });
-      
-      console.log("LangChain auto-instrumentation initialized successfully");
-    } catch (error) {
-      console.error("Failed to initialize LangChain auto-instrumentation:", error);
+  public override enable(): void {
+    // Re-enabling must not wrap the patched methods a second time
+    if (this.isEnabled()) {
+      return;
+    }
+    this._diag.debug('Enabling LangChain instrumentation');
+    super.enable();
+    // Fields are not initialized yet when the base constructor enables us
+    for (const moduleExports of this._manuallyInstrumented ?? []) {
+      this._patch(moduleExports);
     }
   }
-  
+
   /**
    * Disable the auto-instrumentation
    */
-  public disable(): void {  
+  public override disable(): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+    this._diag.debug('Disabling LangChain instrumentation');
+    super.disable();
+    for (const moduleExports of this._manuallyInstrumented ?? []) {
+      this._unpatch(moduleExports);
+    }
+  }
+
+  private _patch(moduleExports: any): any {
+    this._diag.debug('Patching @langchain/core module');
+    if (moduleExports?.CallbackManager) {
+      this._patchCallbackManager(moduleExports.CallbackManager);
+    }
+    if (moduleExports?.Embeddings) {
+      this._patchEmbeddings(moduleExports);
+    }
+    // Lets tool spans read the description and schema of the tool
+    const toolPrototype = moduleExports?.StructuredTool?.prototype;
+    if (toolPrototype && !isWrapped(toolPrototype.toJSON)) {
+      this._wrap(toolPrototype, 'toJSON', wrapToolToJSON);
+    }
+
+    for (const [className, methods] of Object.entries(RUN_CONTEXT_METHODS)) {
+      const prototype = moduleExports?.[className]?.prototype;
+      if (!prototype) {
+        continue;
+      }
+      for (const method of methods.invoke ?? []) {
+        if (Object.prototype.hasOwnProperty.call(prototype, method) && !isWrapped(prototype[method])) {
+          this._wrap(prototype, method, wrapInvoke);
+        }
+      }
+      for (const method of methods.stream ?? []) {
+        if (Object.prototype.hasOwnProperty.call(prototype, method) && !isWrapped(prototype[method])) {
+          this._wrap(prototype, method, wrapStream);
+        }
+      }
+    }
+    return moduleExports;
+  }
+
+  private _unpatch(moduleExports: any): void {
+    const OriginalEmbeddings = getOriginalEmbeddingsClass(moduleExports?.Embeddings);
+    if (OriginalEmbeddings) {
+      moduleExports.Embeddings = OriginalEmbeddings;
+    }
+
+    const toolPrototype = moduleExports?.StructuredTool?.prototype;
+    if (toolPrototype && isWrapped(toolPrototype.toJSON)) {
+      this._unwrap(toolPrototype, 'toJSON');
+    }
+
+    const CallbackManager = moduleExports?.CallbackManager;
+    if (CallbackManager) {
+      for (const method of ['_configureSync', 'configure']) {
+        if (isWrapped(CallbackManager[method])) {
+          this._unwrap(CallbackManager, method);
+        }
+      }
+    }
+
+    for (const [className, methods] of Object.entries(RUN_CONTEXT_METHODS)) {
+      const prototype = moduleExports?.[className]?.prototype;
+      if (!prototype) {
+        continue;
+      }
+      for (const method of [...(methods.invoke ?? []), ...(methods.stream ?? [])]) {
+        if (Object.prototype.hasOwnProperty.call(prototype, method) && isWrapped(prototype[method])) {
+          this._unwrap(prototype, method);
+        }
+      }
+    }
+  }
+
+  /**
+   * Every run resolves its callbacks through CallbackManager.configure, which
+   * delegates to _configureSync in current releases. Wrapping it lets us add
+   * our handler to every run without touching handlers the user registered.
+   */
+  private _patchCallbackManager(CallbackManager: any): void {
+    const method = typeof CallbackManager._configureSync === 'function' ? '_configureSync' : 'configure';
+    if (isWrapped(CallbackManager[method])) {
+      return;
+    }
+    const instrumentation = this;
+
+    this._wrap(CallbackManager, method, (original: (...args: any[]) => any) => {
+      return function (this: any, ...args: any[]) {
+        // Without handlers LangChain builds no manager and drops the tags and metadata of the run,
+        // so hand it ours as an inheritable handler and let it build one
+        if (!args[0] && !args[1] && instrumentation.isEnabled() && instrumentation.handler) {
+          args[0] = [instrumentation.handler];
+        }
+        const result = original.apply(this, args);
+        // Older releases configure asynchronously
+        if (result && typeof result.then === 'function') {
+          return result.then((manager: any) => instrumentation._addHandler(manager, CallbackManager));
+        }
+        return instrumentation._addHandler(result, CallbackManager);
+      };
+    });
+  }
+
+  /**
+   * Embeddings calls bypass callbacks, and every integration overrides
+   * embedQuery and embedDocuments. Replacing the exported base class lets us
+   * wrap the methods of each instance the integrations create.
+   */
+  private _patchEmbeddings(moduleExports: any): void {
+    if (getOriginalEmbeddingsClass(moduleExports.Embeddings)) {
+      return;
+    }
     try {
-      // In newer versions of LangChain, we can remove our handler
-      CallbackManager.configure([]);
-      
-      console.log("LangChain auto-instrumentation disabled");
-    } catch (error) {
-      console.error("Failed to disable LangChain auto-instrumentation:", error);
+      moduleExports.Embeddings = createInstrumentedEmbeddingsClass(
+        moduleExports.Embeddings,
+        () => this._getEmbeddingsHandler()
+      );
+    } catch {
+      // ES module namespaces are read-only, instances can still be instrumented directly
+      this._diag.debug('Could not replace Embeddings, use instrumentEmbeddings() for ES modules');
     }
   }
+
+  private _getEmbeddingsHandler(): OpenTelemetryCallbackHandler | undefined {
+    return this.isEnabled() ? this.handler : undefined;
+  }
+
+  /**
+   * Trace an Embeddings instance created from a class that was not patched,
+   * e.g. when @langchain/core is imported as an ES module
+   */
+  public instrumentEmbeddings(embeddings: any): void {
+    instrumentEmbeddings(embeddings, () => this._getEmbeddingsHandler());
+  }
+
+  private _addHandler(manager: any, CallbackManager: any): any {
+    if (!this.isEnabled() || !this.handler) {
+      return manager;
+    }
+
+    const callbackManager = manager ?? new CallbackManager();
+    // Skip runs that already carry our handler, e.g. passed explicitly via callbacks
+    const registered = callbackManager.handlers.some(
+      (h: any) => h === this.handler || h.name === this.handler.name
+    );
+    if (!registered) {
+      callbackManager.addHandler(this.handler, true);
+    }
+    return callbackManager;
+  }
   
   /**
    * Set the tracer provider
    */
-  public setTracerProvider(tracerProvider: TracerProvider): void {
+  public override setTracerProvider(tracerProvider: TracerProvider): void {
+    super.setTracerProvider(tracerProvider);
     this._tracerProvider = tracerProvider;
-    const tracer = tracerProvider.getTracer(this.instrumentationName, this.instrumentationVersion);
-    // if (this.handler) {
-    //   this.handler.tracer = tracer;
-    // } else {
-    //   this.handler = new OpenTelemetryCallbackHandler(tracer);
-    // }
-    this.handler = new OpenTelemetryCallbackHandler(tracer);
-
-    // CallbackManager.configure([this.handler]);
+    // Swap the tracer in place so the registered handler and its in-flight runs survive
+    this.handler.setTracer(this.tracer);
   }
   
   /**
    * Set the meter provider
    */
-  public setMeterProvider(meterProvider: MeterProvider): void {
+  public override setMeterProvider(meterProvider: MeterProvider): void {
+    super.setMeterProvider(meterProvider);
     this._meterProvider = meterProvider;
-    // Implement meter usage if needed
+  }
+
+  /**
+   * Recreate the metric instruments from the current meter
+   */
+  protected override _updateMetricInstruments(): void {
+    if (this.handler) {
+      this.handler.metrics = new GenAIMetrics(this.meter);
+    }
   }
   
   /**
    * Set the logger provider
    */
-  public setLoggerProvider(loggerProvider: LoggerProvider): void {
+  public override setLoggerProvider(loggerProvider: LoggerProvider): void {
+    super.setLoggerProvider(loggerProvider);
     this._loggerProvider = loggerProvider;
-    // Implement logger usage if needed
+    this.handler.events = new GenAIEventEmitter(this.logger);
   }
   
   /**
-   * Set the instrumentation config
+   * Set the instrumentation config. Invalid fields are reported and ignored,
+   * and OTEL_INSTRUMENTATION_GENAI_* environment variables take precedence.
    */
-  public setConfig(config: InstrumentationConfig): void {
-    this._config = config;
-    // Apply configuration changes if needed
+  public override setConfig(config: LangChainInstrumentationConfig = {}): void {
+    const resolved = resolveConfig(config);
+    for (const error of resolved.errors) {
+      // The base constructor sets the config before the component logger exists
+      (this._diag ?? diag).warn(`Ignoring invalid config ${error}`);
+    }
+    super.setConfig(resolved.config);
+    this._applyConfig();
   }
-  
+
   /**
-   * Get the instrumentation config
+   * Push the current config down to the callback handler
    */
-  public getConfig(): InstrumentationConfig {
-    return this._config;
+  private _applyConfig(): void {
+    // The base constructor sets the config before the handler exists
+    if (!this.handler) {
+      return;
+    }
+    this.handler.captureMessageContent = this._config.captureMessageContent ?? false;
+    this.handler.sanitizer = new Sanitizer({
+      ...this._config.redaction,
+      maxLength: this._config.redaction?.maxLength ?? this._config.maxAttributeLength,
+    });
+    this.handler.serializer = new Serializer(this._config.serialization);
+    this.handler.contentFormat = this._config.contentFormat ?? 'json';
+    this.handler.capturePromptVariables = this._config.capturePromptVariables ?? false;
+    this.handler.traceRunTypes = { ...this._config.traceRunTypes };
+    this.handler.runFilter = new RunFilter({
+      skipInternalRunnables: this._config.skipInternalRunnables,
+      internalRunnables: this._config.internalRunnables,
+      includeRuns: this._config.includeRuns,
+      excludeRuns: this._config.excludeRuns,
+      detailLevel: this._config.detailLevel,
+    });
+    this.handler.spanNameTemplates = { ...DEFAULT_SPAN_NAME_TEMPLATES, ...this._config.spanNameTemplates };
+    this.handler.semconvStability = this._config.semconvStability ?? 'default';
+    this.handler.debugCallbackPayloads = this._config.debugCallbackPayloads ?? false;
+    this.handler.providers = new ProviderRegistry(this._config.providerAdapters);
+    this.handler.captureRetrievalDocuments = this._config.captureRetrievalDocuments ?? false;
+    this.handler.captureToolDefinitions = this._config.captureToolDefinitions ?? false;
+    this.handler.costCalculator = this._config.estimateCost === false
+      ? undefined
+      : new CostCalculator(this._config.modelPrices);
+    this.handler.tenantMetadataKey = this._config.tenantMetadataKey ?? 'tenant_id';
+    this.handler.hooks = {
+      onSpanStart: this._config.onSpanStart,
+      onSpanEnd: this._config.onSpanEnd,
+      onError: this._config.onError,
+    };
+    this.handler.recordChunkEvents = this._config.recordChunkEvents ?? false;
+    this.handler.maxChunkEventsPerSpan = this._config.maxChunkEventsPerSpan ?? 100;
+    this.handler.chunkEventMinIntervalMs = this._config.chunkEventMinIntervalMs ?? 0;
+    this.handler.baggageKeys = this._config.baggageKeys ?? [];
+    this.handler.associationMetadataKeys = this._config.associationMetadataKeys ?? [];
+    this.handler.associationTags = this._config.associationTags ?? [];
+    this.handler.tracerResolver = this._config.tracerProviderResolver
+      ? (metadata) => this._resolveTracer(metadata)
+      : undefined;
+    this.handler.spanMapping.configure({
+      ttlMs: this._config.runTtlMs,
+      maxSize: this._config.maxPendingRuns,
+      sweepIntervalMs: this._config.runSweepIntervalMs,
+    });
   }
   
+  private _resolveTracer(metadata: Record<string, any>): Tracer | undefined {
+    const tracerProvider = this._config.tracerProviderResolver?.(metadata);
+    if (!tracerProvider) {
+      return undefined;
+    }
+    let tracer = this._resolvedTracers.get(tracerProvider);
+    if (!tracer) {
+      tracer = tracerProvider.getTracer(this.instrumentationName, this.instrumentationVersion);
+      this._resolvedTracers.set(tracerProvider, tracer);
+    }
+    return tracer;
+  }
+
+  /**
+   * Flush spans, metrics and events that have already ended through the
+   * configured providers. Runs still in flight are left untouched.
+   */
+  public async forceFlush(): Promise<void> {
+    const providers = [this._tracerProvider, this._meterProvider, this._loggerProvider] as Flushable[];
+    await Promise.all(
+      providers
+        .filter((provider) => typeof provider?.forceFlush === 'function')
+        .map((provider) => provider.forceFlush!())
+    );
+  }
+
+  /**
+   * Abort every pending run so its span is exported, then flush the providers
+   */
+  public async shutdown(): Promise<void> {
+    this.handler.spanMapping.abortAll(RunAbortReason.SHUTDOWN);
+    await this.forceFlush();
+  }
+
   /**
    * Customize the handler with additional configuration
    */
@@ -0,0 +1,94 @@
+import type { SpanContext } from '@opentelemetry/api';
+import type { Serialized } from '@langchain/core/load/serializable';
+
+/**
+ * What LangGraph reports in the metadata of every run inside a graph step
+ */
+export interface LangGraphNodeInfo {
+  node: string;
+  step?: number;
+  triggers?: string[];
+  checkpointNs?: string;
+  resuming: boolean;
+}
+
+/**
+ * Compiled graphs serialize under the langgraph.pregel namespace
+ */
+export function isLangGraphRun(serialized: Serialized | undefined): boolean {
+  const id = serialized?.id;
+  return Array.isArray(id) && id[0] === 'langgraph' && id[1] === 'pregel';
+}
+
+export function getLangGraphNodeInfo(metadata: Record<string, any> = {}): LangGraphNodeInfo | undefined {
+  if (typeof metadata.langgraph_node !== 'string') {
+    return undefined;
+  }
+  return {
+    node: metadata.langgraph_node,
+    step: typeof metadata.langgraph_step === 'number' ? metadata.langgraph_step : undefined,
+    triggers: Array.isArray(metadata.langgraph_triggers) ? metadata.langgraph_triggers.map(String) : undefined,
+    checkpointNs: metadata.langgraph_checkpoint_ns ?? metadata.checkpoint_ns,
+    resuming: metadata.__pregel_resuming === true,
+  };
+}
+
+/**
+ * The source node of a conditional edge run, which LangGraph names Branch<node>
+ */
+export function getConditionalEdgeSource(runName: string | undefined): string | undefined {
+  return runName?.match(/^Branch<(.+)>$/)?.[1];
+}
+
+/**
+ * The nodes a conditional edge routed to. Edges return node names, lists of
+ * them, or Send objects carrying the node name.
+ */
+export function getEdgeDestinations(output: any): string[] {
+  const value = output && typeof output === 'object' && 'output' in output ? output.output : output;
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .map((v) => (typeof v === 'string' ? v : v?.node ?? v?.goto))
+    .flat()
+    .filter((v): v is string => typeof v === 'string');
+}
+
+/**
+ * Interrupts are thrown to pause a graph and are not failures
+ */
+export function isGraphInterrupt(error: any): boolean {
+  return error?.name === 'GraphInterrupt' || error?.name === 'NodeInterrupt';
+}
+
+const DEFAULT_MAX_INTERRUPTED_RUNS = 1000;
+
+/**
+ * Span contexts of interrupted graphs and nodes, keyed by thread id or
+ * checkpoint namespace, so the runs that resume them can link back
+ */
+export class InterruptedRunStore {
+  private runs = new Map<string, SpanContext>();
+  private maxSize: number;
+
+  constructor(maxSize: number = DEFAULT_MAX_INTERRUPTED_RUNS) {
+    this.maxSize = maxSize;
+  }
+
+  public remember(key: string, spanContext: SpanContext): void {
+    this.runs.delete(key);
+    this.runs.set(key, spanContext);
+    // Maps iterate in insertion order, so the first entry is the oldest interrupt
+    while (this.runs.size > this.maxSize) {
+      this.runs.delete(this.runs.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Return and forget the interrupted run for a key
+   */
+  public take(key: string): SpanContext | undefined {
+    const spanContext = this.runs.get(key);
+    this.runs.delete(key);
+    return spanContext;
+  }
+}
@@ -0,0 +1,145 @@
+import type { Attributes, Counter, Histogram, Meter } from '@opentelemetry/api';
+
+export const Metric_Names = {
+  GEN_AI_CLIENT_TOKEN_USAGE: 'gen_ai.client.token.usage',
+  GEN_AI_CLIENT_OPERATION_DURATION: 'gen_ai.client.operation.duration',
+  GEN_AI_CLIENT_TIME_TO_FIRST_TOKEN: 'gen_ai.client.time_to_first_token',
+  GEN_AI_CLIENT_TIME_PER_OUTPUT_TOKEN: 'gen_ai.client.time_per_output_token',
+  GEN_AI_TOOL_EXECUTION_DURATION: 'gen_ai.tool.execution.duration',
+  GEN_AI_CHAIN_DURATION: 'gen_ai.chain.duration',
+  GEN_AI_CLIENT_COST: 'gen_ai.client.cost',
+  INSTRUMENTATION_INTERNAL_ERRORS: 'langchain.instrumentation.internal_errors',
+};
+
+export enum GenAITokenTypeValues {
+  INPUT = 'input',
+  OUTPUT = 'output',
+}
+
+/**
+ * Failures inside the instrumentation that would otherwise drop data silently
+ */
+export enum InternalErrorTypeValues {
+  SPAN_NOT_FOUND = 'span_not_found',
+  SERIALIZATION_ERROR = 'serialization_error',
+  TRACER_RESOLUTION_ERROR = 'tracer_resolution_error',
+  PROVIDER_ADAPTER_ERROR = 'provider_adapter_error',
+  UNKNOWN_MODEL_PRICE = 'unknown_model_price',
+  HOOK_ERROR = 'hook_error',
+}
+
+// Bucket boundaries recommended by the GenAI semantic conventions
+const DURATION_BUCKETS = [
+  0.01, 0.02, 0.04, 0.08, 0.16, 0.32, 0.64, 1.28, 2.56, 5.12, 10.24, 20.48, 40.96, 81.92,
+];
+const TIME_PER_TOKEN_BUCKETS = [
+  0.01, 0.025, 0.05, 0.075, 0.1, 0.15, 0.2, 0.3, 0.4, 0.5, 0.75, 1.0, 2.5,
+];
+const TOKEN_BUCKETS = [
+  1, 4, 16, 64, 256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304, 16777216, 67108864,
+];
+
+/**
+ * Holds the GenAI client instruments created from a single meter
+ */
+export class GenAIMetrics {
+  private tokenUsage: Histogram;
+  private operationDuration: Histogram;
+  private timeToFirstToken: Histogram;
+  private timePerOutputToken: Histogram;
+  private toolDuration: Histogram;
+  private chainDuration: Histogram;
+  private cost: Counter;
+  private internalErrors: Counter;
+
+  constructor(meter: Meter) {
+    this.tokenUsage = meter.createHistogram(Metric_Names.GEN_AI_CLIENT_TOKEN_USAGE, {
+      description: 'Measures number of input and output tokens used',
+      unit: '{token}',
+      advice: { explicitBucketBoundaries: TOKEN_BUCKETS },
+    });
+    this.operationDuration = meter.createHistogram(Metric_Names.GEN_AI_CLIENT_OPERATION_DURATION, {
+      description: 'GenAI operation duration',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+    });
+    this.timeToFirstToken = meter.createHistogram(Metric_Names.GEN_AI_CLIENT_TIME_TO_FIRST_TOKEN, {
+      description: 'Time to receive the first token of a streamed response',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+    });
+    this.timePerOutputToken = meter.createHistogram(Metric_Names.GEN_AI_CLIENT_TIME_PER_OUTPUT_TOKEN, {
+      description: 'Time per output token after the first token of a streamed response',
+      unit: 's',
+      advice: { explicitBucketBoundaries: TIME_PER_TOKEN_BUCKETS },
+    });
+    this.toolDuration = meter.createHistogram(Metric_Names.GEN_AI_TOOL_EXECUTION_DURATION, {
+      description: 'Duration of tool executions',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+    });
+    this.chainDuration = meter.createHistogram(Metric_Names.GEN_AI_CHAIN_DURATION, {
+      description: 'Duration of chain runs',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+    });
+    this.cost = meter.createCounter(Metric_Names.GEN_AI_CLIENT_COST, {
+      description: 'Estimated cost of model calls in US dollars',
+      unit: '{USD}',
+    });
+    this.internalErrors = meter.createCounter(Metric_Names.INSTRUMENTATION_INTERNAL_ERRORS, {
+      description: 'Internal failures of the LangChain instrumentation',
+      unit: '{error}',
+    });
+  }
+
+  /**
+   * Record input and output token counts as separate data points
+   */
+  public recordTokenUsage(
+    inputTokens: number | undefined,
+    outputTokens: number | undefined,
+    attributes: Attributes
+  ): void {
+    if (typeof inputTokens === 'number') {
+      this.tokenUsage.record(inputTokens, {
+        ...attributes,
+        'gen_ai.token.type': GenAITokenTypeValues.INPUT,
+      });
+    }
+    if (typeof outputTokens === 'number') {
+      this.tokenUsage.record(outputTokens, {
+        ...attributes,
+        'gen_ai.token.type': GenAITokenTypeValues.OUTPUT,
+      });
+    }
+  }
+
+  public recordOperationDuration(seconds: number, attributes: Attributes): void {
+    this.operationDuration.record(seconds, attributes);
+  }
+
+  public recordTimeToFirstToken(seconds: number, attributes: Attributes): void {
+    this.timeToFirstToken.record(seconds, attributes);
+  }
+
+  public recordTimePerOutputToken(seconds: number, attributes: Attributes): void {
+    this.timePerOutputToken.record(seconds, attributes);
+  }
+
+  public recordToolDuration(seconds: number, attributes: Attributes): void {
+    this.toolDuration.record(seconds, attributes);
+  }
+
+  public recordChainDuration(seconds: number, attributes: Attributes): void {
+    this.chainDuration.record(seconds, attributes);
+  }
+
+  public recordCost(dollars: number, attributes: Attributes): void {
+    this.cost.add(dollars, attributes);
+  }
+
+  public recordInternalError(errorType: InternalErrorTypeValues, attributes: Attributes = {}): void {
+    this.internalErrors.add(1, { ...attributes, 'error.type': errorType });
+  }
+}
@@ -0,0 +1,73 @@
+import { createHash } from 'node:crypto';
+import type { Serialized } from '@langchain/core/load/serializable';
+import { Serializer } from './serialization.js';
+
+/**
+ * Run metadata the LangChain hub sets on the prompts it pulls
+ */
+export const Prompt_Hub_Metadata_Keys = {
+  OWNER: 'lc_hub_owner',
+  REPO: 'lc_hub_repo',
+  COMMIT: 'lc_hub_commit_hash',
+};
+
+/**
+ * Identity of a prompt template run. The id is the hub reference of hub
+ * prompts and the run name otherwise, the version the hub commit or else the
+ * content hash.
+ */
+export interface PromptTemplateInfo {
+  name: string;
+  id: string;
+  version?: string;
+  hubRef?: string;
+  hubCommit?: string;
+  // First 16 hex digits of the SHA-256 of the template content
+  hash?: string;
+}
+
+// Deep enough for chat templates made of message templates, with no item limit
+const hashSerializer = new Serializer({ maxDepth: 32, maxItems: Number.MAX_SAFE_INTEGER });
+
+/**
+ * Prompt templates run as chains, LangChain tells them apart by run type
+ * and class name
+ */
+export function isPromptTemplateRun(serialized: Serialized | undefined, runType?: string): boolean {
+  if (runType === 'prompt') {
+    return true;
+  }
+  const id = serialized?.id;
+  const className = Array.isArray(id) ? id[id.length - 1] : undefined;
+  return typeof className === 'string' && (className.endsWith('PromptTemplate') || className === 'StructuredPrompt');
+}
+
+/**
+ * Hash of what a template renders, ignoring metadata and tags so the same
+ * template hashes the same wherever it was loaded from
+ */
+export function promptContentHash(serialized: Serialized | undefined): string | undefined {
+  const kwargs = (serialized as any)?.kwargs;
+  if (!kwargs || typeof kwargs !== 'object') {
+    return undefined;
+  }
+  const { metadata, tags, ...content } = kwargs;
+  return createHash('sha256').update(hashSerializer.stringify(content)).digest('hex').slice(0, 16);
+}
+
+export function getPromptTemplateInfo(
+  serialized: Serialized | undefined,
+  name: string,
+  metadata: Record<string, any> = {}
+): PromptTemplateInfo {
+  const repo = metadata[Prompt_Hub_Metadata_Keys.REPO];
+  const owner = metadata[Prompt_Hub_Metadata_Keys.OWNER];
+  const hubRef = typeof repo === 'string'
+    ? (typeof owner === 'string' ? `${owner}/${repo}` : repo)
+    : undefined;
+  const hubCommit = typeof metadata[Prompt_Hub_Metadata_Keys.COMMIT] === 'string'
+    ? metadata[Prompt_Hub_Metadata_Keys.COMMIT]
+    : undefined;
+  const hash = promptContentHash(serialized);
+  return { name, id: hubRef ?? name, version: hubCommit ?? hash, hubRef, hubCommit, hash };
+}
@@ -0,0 +1,401 @@
+import type { Serialized } from '@langchain/core/load/serializable';
+import type { LLMResult } from '@langchain/core/outputs';
+
+/**
+ * A tool bound to a model, normalized across provider formats
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters?: Record<string, any>;
+}
+
+/**
+ * Request parameters of a model call, in GenAI semantic convention terms
+ */
+export interface LLMRequestInfo {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  seed?: number;
+  toolDefinitions?: ToolDefinition[];
+}
+
+/**
+ * Response details of a model call, in GenAI semantic convention terms
+ */
+export interface LLMResponseInfo {
+  model?: string;
+  id?: string;
+  finishReasons?: string[];
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedInputTokens?: number;
+  reasoningTokens?: number;
+}
+
+/**
+ * What the handler knows about a model when its run starts
+ */
+export interface ModelDescriptor {
+  // Last segment of the serialized id, e.g. ChatOpenAI
+  className?: string;
+  // The ls_provider LangChain reports in the run metadata, e.g. openai
+  lsProvider?: string;
+  invocationParams: Record<string, any>;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Maps one LangChain integration onto GenAI attributes. Values returned by an
+ * adapter take precedence over the generic extraction.
+ */
+export interface ProviderAdapter {
+  // Value of gen_ai.system
+  system: string;
+  matches(model: ModelDescriptor): boolean;
+  parseRequest?(model: ModelDescriptor): LLMRequestInfo;
+  parseResponse?(output: LLMResult): LLMResponseInfo;
+}
+
+function _first(source: Record<string, any> | undefined, keys: string[]): any {
+  if (!source) {
+    return undefined;
+  }
+  for (const key of keys) {
+    if (source[key] !== undefined && source[key] !== null && source[key] !== '') {
+      return source[key];
+    }
+  }
+  return undefined;
+}
+
+function _number(value: any): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function _string(value: any): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function _stringArray(value: any): string[] | undefined {
+  if (typeof value === 'string' && value !== '') {
+    return [value];
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    return value.map(String);
+  }
+  return undefined;
+}
+
+function _withoutUndefined<T extends object>(info: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(info).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+function _classMatches(...classNames: string[]): (model: ModelDescriptor) => boolean {
+  return (model) => model.className !== undefined && classNames.includes(model.className);
+}
+
+/**
+ * Normalize the OpenAI, Anthropic and Gemini tool formats
+ */
+function _toolDefinitions(tools: any): ToolDefinition[] | undefined {
+  if (!Array.isArray(tools) || tools.length === 0) {
+    return undefined;
+  }
+  const definitions: ToolDefinition[] = [];
+  for (const tool of tools) {
+    if (Array.isArray(tool?.functionDeclarations)) {
+      definitions.push(...(_toolDefinitions(tool.functionDeclarations) ?? []));
+      continue;
+    }
+    const fn = tool?.function ?? tool?.toolSpec ?? tool;
+    if (typeof fn?.name !== 'string') {
+      continue;
+    }
+    definitions.push({
+      name: fn.name,
+      description: _string(fn.description),
+      parameters: fn.parameters ?? fn.input_schema ?? fn.inputSchema?.json ?? fn.schema,
+    });
+  }
+  return definitions.length > 0 ? definitions : undefined;
+}
+
+/**
+ * Request parameters under the names most integrations use
+ */
+function _parseGenericRequest(model: ModelDescriptor): LLMRequestInfo {
+  const invocationParams = model.invocationParams;
+  // Some integrations nest the sampling parameters
+  const params = { ...invocationParams, ...invocationParams.params };
+  const metadata = model.metadata;
+
+  return {
+    model: _string(_first(params, ['model', 'modelName', 'model_name', 'model_id', 'modelId', 'base_model_id']))
+      ?? _string(metadata.ls_model_name),
+    maxTokens: _number(_first(params, [
+      'max_tokens', 'maxTokens', 'max_new_tokens', 'max_completion_tokens', 'maxOutputTokens', 'max_output_tokens',
+    ])) ?? _number(metadata.ls_max_tokens),
+    temperature: _number(params.temperature) ?? _number(metadata.ls_temperature),
+    topP: _number(_first(params, ['top_p', 'topP'])),
+    topK: _number(_first(params, ['top_k', 'topK'])),
+    stopSequences: _stringArray(_first(params, ['stop', 'stop_sequences', 'stopSequences']))
+      ?? _stringArray(metadata.ls_stop),
+    frequencyPenalty: _number(_first(params, ['frequency_penalty', 'frequencyPenalty'])),
+    presencePenalty: _number(_first(params, ['presence_penalty', 'presencePenalty'])),
+    seed: _number(params.seed),
+    toolDefinitions: _toolDefinitions(params.tools),
+  };
+}
+
+/**
+ * Response details from usage_metadata and response_metadata on chat
+ * messages, generation info, and the legacy llmOutput token usage
+ */
+function _parseGenericResponse(output: LLMResult): LLMResponseInfo {
+  const info: LLMResponseInfo = {};
+  const finishReasons: string[] = [];
+  let inputTokens: number | undefined;
+  let outputTokens: number | undefined;
+  let cachedInputTokens: number | undefined;
+  let reasoningTokens: number | undefined;
+  const add = (total: number | undefined, value: any) =>
+    typeof value === 'number' ? (total ?? 0) + value : total;
+
+  for (const generation of (output.generations ?? []).flat()) {
+    const message = (generation as any).message;
+    const responseMetadata = message?.response_metadata ?? {};
+    const generationInfo = generation.generationInfo ?? {};
+
+    info.model ??= _string(_first(responseMetadata, ['model_name', 'model', 'modelId', 'model_id']));
+    // LangChain assigns run-<uuid> ids to messages the provider did not identify
+    const messageId = _string(message?.id);
+    info.id ??= _string(responseMetadata.id) ?? (messageId?.startsWith('run-') ? undefined : messageId);
+
+    const finishReason = _string(
+      _first(responseMetadata, ['finish_reason', 'stop_reason', 'stopReason', 'done_reason', 'finishReason'])
+        ?? _first(generationInfo, ['finish_reason', 'finishReason', 'stop_reason', 'done_reason'])
+    );
+    if (finishReason) {
+      finishReasons.push(finishReason);
+    }
+
+    const usage = message?.usage_metadata;
+    if (usage) {
+      inputTokens = add(inputTokens, usage.input_tokens);
+      outputTokens = add(outputTokens, usage.output_tokens);
+      cachedInputTokens = add(cachedInputTokens, usage.input_token_details?.cache_read);
+      reasoningTokens = add(reasoningTokens, usage.output_token_details?.reasoning);
+    }
+  }
+
+  const llmOutput = output.llmOutput ?? {};
+  info.model ??= _string(_first(llmOutput, ['model_name', 'model', 'model_id']));
+  info.id ??= _string(llmOutput.id);
+
+  // Integrations that predate usage_metadata report usage on llmOutput
+  if (inputTokens === undefined && outputTokens === undefined) {
+    const tokenUsage = _first(llmOutput, ['token_usage', 'tokenUsage', 'usage', 'estimatedTokenUsage']) ?? {};
+    inputTokens = _number(_first(tokenUsage, [
+      'prompt_tokens', 'promptTokens', 'input_tokens', 'input_token_count', 'inputTokens',
+    ]));
+    outputTokens = _number(_first(tokenUsage, [
+      'completion_tokens', 'completionTokens', 'output_tokens', 'generated_token_count', 'outputTokens',
+    ]));
+    cachedInputTokens ??= _number(tokenUsage.prompt_tokens_details?.cached_tokens);
+    reasoningTokens ??= _number(tokenUsage.completion_tokens_details?.reasoning_tokens);
+  }
+
+  return {
+    ...info,
+    finishReasons: finishReasons.length > 0 ? finishReasons : undefined,
+    inputTokens,
+    outputTokens,
+    cachedInputTokens,
+    reasoningTokens,
+  };
+}
+
+const OPENAI_ADAPTER: ProviderAdapter = {
+  system: 'openai',
+  matches: (model) => model.lsProvider === 'openai' || _classMatches('ChatOpenAI', 'OpenAI', 'OpenAIEmbeddings')(model),
+};
+
+const AZURE_OPENAI_ADAPTER: ProviderAdapter = {
+  system: 'az.ai.openai',
+  matches: (model) => model.lsProvider === 'azure' || _classMatches('AzureChatOpenAI', 'AzureOpenAI', 'AzureOpenAIEmbeddings')(model),
+};
+
+const ANTHROPIC_ADAPTER: ProviderAdapter = {
+  system: 'anthropic',
+  matches: (model) => model.lsProvider === 'anthropic' || _classMatches('ChatAnthropic', 'ChatAnthropicMessages')(model),
+  parseResponse: (output) => {
+    // Older releases only report prompt caching in the raw usage block
+    const usage = (output.generations?.[0]?.[0] as any)?.message?.response_metadata?.usage;
+    return { cachedInputTokens: _number(usage?.cache_read_input_tokens) };
+  },
+};
+
+const BEDROCK_ADAPTER: ProviderAdapter = {
+  system: 'aws.bedrock',
+  matches: (model) => model.lsProvider === 'amazon_bedrock' ||
+    _classMatches('ChatBedrockConverse', 'BedrockChat', 'Bedrock', 'BedrockEmbeddings')(model),
+  parseRequest: (model) => {
+    const inferenceConfig = model.invocationParams.inferenceConfig ?? {};
+    return {
+      maxTokens: _number(inferenceConfig.maxTokens),
+      temperature: _number(inferenceConfig.temperature),
+      topP: _number(inferenceConfig.topP),
+      stopSequences: _stringArray(inferenceConfig.stopSequences),
+      toolDefinitions: _toolDefinitions(model.invocationParams.toolConfig?.tools),
+    };
+  },
+};
+
+const VERTEX_ADAPTER: ProviderAdapter = {
+  system: 'gcp.vertex_ai',
+  matches: (model) => model.lsProvider === 'google_vertexai' || _classMatches('ChatVertexAI', 'VertexAI', 'VertexAIEmbeddings')(model),
+};
+
+const GEMINI_ADAPTER: ProviderAdapter = {
+  system: 'gcp.gemini',
+  matches: (model) => model.lsProvider === 'google_genai' || _classMatches('ChatGoogleGenerativeAI', 'GoogleGenerativeAIEmbeddings')(model),
+};
+
+const OLLAMA_ADAPTER: ProviderAdapter = {
+  system: 'ollama',
+  matches: (model) => model.lsProvider === 'ollama' || _classMatches('ChatOllama', 'Ollama', 'OllamaEmbeddings')(model),
+  parseRequest: (model) => {
+    const options = model.invocationParams.options ?? model.invocationParams;
+    return {
+      maxTokens: _number(options.num_predict ?? options.numPredict),
+      topK: _number(options.top_k ?? options.topK),
+      stopSequences: _stringArray(options.stop),
+      seed: _number(options.seed),
+    };
+  },
+};
+
+const MISTRAL_ADAPTER: ProviderAdapter = {
+  system: 'mistral_ai',
+  matches: (model) => model.lsProvider === 'mistral' || _classMatches('ChatMistralAI', 'MistralAIEmbeddings')(model),
+  parseRequest: (model) => ({ seed: _number(model.invocationParams.random_seed ?? model.invocationParams.randomSeed) }),
+};
+
+const GROQ_ADAPTER: ProviderAdapter = {
+  system: 'groq',
+  matches: (model) => model.lsProvider === 'groq' || _classMatches('ChatGroq')(model),
+};
+
+const COHERE_ADAPTER: ProviderAdapter = {
+  system: 'cohere',
+  matches: (model) => model.lsProvider === 'cohere' || _classMatches('ChatCohere', 'Cohere', 'CohereEmbeddings')(model),
+  parseRequest: (model) => ({
+    topP: _number(model.invocationParams.p),
+    topK: _number(model.invocationParams.k),
+  }),
+};
+
+const DEEPSEEK_ADAPTER: ProviderAdapter = {
+  system: 'deepseek',
+  matches: (model) => model.lsProvider === 'deepseek' || _classMatches('ChatDeepSeek')(model),
+};
+
+const XAI_ADAPTER: ProviderAdapter = {
+  system: 'xai',
+  matches: (model) => model.lsProvider === 'xai' || _classMatches('ChatXAI')(model),
+};
+
+export const DEFAULT_PROVIDER_ADAPTERS: ProviderAdapter[] = [
+  AZURE_OPENAI_ADAPTER,
+  OPENAI_ADAPTER,
+  ANTHROPIC_ADAPTER,
+  BEDROCK_ADAPTER,
+  VERTEX_ADAPTER,
+  GEMINI_ADAPTER,
+  OLLAMA_ADAPTER,
+  MISTRAL_ADAPTER,
+  GROQ_ADAPTER,
+  COHERE_ADAPTER,
+  DEEPSEEK_ADAPTER,
+  XAI_ADAPTER,
+];
+
+/**
+ * Resolves the adapter for a model and extracts its request and response
+ * attributes. Adapters registered by users are consulted before the built-in ones.
+ */
+export class ProviderRegistry {
+  private adapters: ProviderAdapter[];
+
+  constructor(adapters: ProviderAdapter[] = []) {
+    this.adapters = [...adapters, ...DEFAULT_PROVIDER_ADAPTERS];
+  }
+
+  public register(adapter: ProviderAdapter): void {
+    this.adapters.unshift(adapter);
+  }
+
+  public describe(
+    serialized: Serialized | undefined,
+    extraParams: Record<string, any> = {},
+    metadata: Record<string, any> = {}
+  ): ModelDescriptor {
+    return {
+      className: serialized?.id?.[serialized.id.length - 1],
+      lsProvider: _string(metadata.ls_provider)?.toLowerCase(),
+      invocationParams: extraParams.invocation_params ?? {},
+      metadata,
+    };
+  }
+
+  /**
+   * Describe an Embeddings instance, whose configuration lives on its own fields
+   */
+  public describeEmbeddings(embeddings: Record<string, any>): ModelDescriptor {
+    return {
+      className: embeddings.constructor?.name,
+      invocationParams: { ...embeddings },
+      metadata: {},
+    };
+  }
+
+  public resolve(model: ModelDescriptor): ProviderAdapter | undefined {
+    return this.adapters.find((adapter) => {
+      try {
+        return adapter.matches(model);
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * The gen_ai.system of a model, falling back to the provider LangChain reports
+   */
+  public system(model: ModelDescriptor, adapter?: ProviderAdapter): string | undefined {
+    return adapter?.system ?? model.lsProvider ?? model.className;
+  }
+
+  public parseRequest(model: ModelDescriptor, adapter?: ProviderAdapter): LLMRequestInfo {
+    return {
+      ...(_withoutUndefined(_parseGenericRequest(model))),
+      ...(_withoutUndefined(adapter?.parseRequest?.(model) ?? {})),
+    };
+  }
+
+  public parseResponse(output: LLMResult, adapter?: ProviderAdapter): LLMResponseInfo {
+    return {
+      ...(_withoutUndefined(_parseGenericResponse(output))),
+      ...(_withoutUndefined(adapter?.parseResponse?.(output) ?? {})),
+    };
+  }
+}
@@ -0,0 +1,193 @@
+export type BuiltinDetector = 'email' | 'phone' | 'credit_card' | 'api_key';
+
+/**
+ * A user supplied redactor: a regex whose matches are replaced, a regex with a
+ * custom replacement, or a function that returns the redacted string
+ */
+export type Redactor =
+  | RegExp
+  | { pattern: RegExp; replacement?: string }
+  | ((value: string, attributeName?: string) => string);
+
+export interface SanitizerOptions {
+  /** Built-in PII detectors to run, `true` enables all of them */
+  detectors?: BuiltinDetector[] | boolean;
+  /** Additional redactors applied after the built-in detectors */
+  redactors?: Redactor[];
+  /** Maximum length of any captured string */
+  maxLength?: number;
+  /** Per-attribute maximum length, takes precedence over maxLength */
+  maxLengthByAttribute?: Record<string, number>;
+  /** Appended to values cut short by a length limit */
+  truncationMarker?: string;
+  /** Keys whose values are masked when the captured payload is JSON */
+  maskedKeys?: string[];
+  /** Replacement used for masked keys and for regex redactors without their own replacement */
+  mask?: string;
+}
+
+const DEFAULT_MASK = '[REDACTED]';
+const DEFAULT_TRUNCATION_MARKER = '...[truncated]';
+
+function _luhnCheck(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+// Credit cards run before phone numbers so long digit runs are not half-masked as phones
+const BUILTIN_DETECTORS: Record<BuiltinDetector, (value: string) => string> = {
+  email: (value) => value.replace(
+    /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    '[REDACTED_EMAIL]'
+  ),
+  credit_card: (value) => value.replace(
+    /\b(?:\d[ -]?){12,18}\d\b/g,
+    (match) => _luhnCheck(match) ? '[REDACTED_CREDIT_CARD]' : match
+  ),
+  phone: (value) => value.replace(
+    /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}(?!\w)/g,
+    '[REDACTED_PHONE]'
+  ),
+  api_key: (value) => value
+    .replace(/\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi, 'Bearer [REDACTED_API_KEY]')
+    .replace(/\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, '[REDACTED_API_KEY]')
+    .replace(/\bAKIA[0-9A-Z]{16}\b/g, '[REDACTED_API_KEY]')
+    .replace(/\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, '[REDACTED_API_KEY]')
+    .replace(/\bxox[abpr]-[A-Za-z0-9-]{10,}/g, '[REDACTED_API_KEY]'),
+};
+
+const DETECTOR_ORDER: BuiltinDetector[] = ['api_key', 'email', 'credit_card', 'phone'];
+
+/**
+ * Redacts and truncates captured payloads before they are recorded
+ */
+export class Sanitizer {
+  private detectors: BuiltinDetector[];
+  private options: SanitizerOptions;
+  private maskedKeys: Set<string>;
+
+  constructor(options: SanitizerOptions = {}) {
+    this.options = options;
+    if (options.detectors === true) {
+      this.detectors = DETECTOR_ORDER;
+    } else if (Array.isArray(options.detectors)) {
+      this.detectors = DETECTOR_ORDER.filter((d) => (options.detectors as BuiltinDetector[]).includes(d));
+    } else {
+      this.detectors = [];
+    }
+    this.maskedKeys = new Set((options.maskedKeys || []).map((k) => k.toLowerCase()));
+  }
+
+  /**
+   * Redact and truncate a single captured string
+   */
+  public sanitize(value: string, attributeName?: string): string {
+    let result = this._maskJsonKeys(value);
+
+    for (const detector of this.detectors) {
+      result = BUILTIN_DETECTORS[detector](result);
+    }
+
+    for (const redactor of this.options.redactors || []) {
+      result = this._applyRedactor(redactor, result, attributeName);
+    }
+
+    return this._truncate(result, attributeName);
+  }
+
+  /**
+   * Sanitize every string inside an arbitrary value, e.g. an event body
+   */
+  public sanitizeValue<T>(value: T, attributeName?: string): T {
+    if (typeof value === 'string') {
+      return this.sanitize(value, attributeName) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((v) => this.sanitizeValue(v, attributeName)) as T;
+    }
+    if (value !== null && typeof value === 'object' && !(value instanceof Uint8Array)) {
+      const result: Record<string, any> = {};
+      for (const [k, v] of Object.entries(value)) {
+        result[k] = this.maskedKeys.has(k.toLowerCase())
+          ? this.options.mask ?? DEFAULT_MASK
+          : this.sanitizeValue(v, attributeName);
+      }
+      return result as T;
+    }
+    return value;
+  }
+
+  private _applyRedactor(redactor: Redactor, value: string, attributeName?: string): string {
+    if (typeof redactor === 'function') {
+      return redactor(value, attributeName);
+    }
+    if (redactor instanceof RegExp) {
+      return value.replace(_globalRegExp(redactor), this.options.mask ?? DEFAULT_MASK);
+    }
+    return value.replace(
+      _globalRegExp(redactor.pattern),
+      redactor.replacement ?? this.options.mask ?? DEFAULT_MASK
+    );
+  }
+
+  private _maskJsonKeys(value: string): string {
+    if (this.maskedKeys.size === 0) {
+      return value;
+    }
+    const trimmed = value.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+      return value;
+    }
+    try {
+      return JSON.stringify(this._maskKeys(JSON.parse(trimmed)));
+    } catch {
+      return value;
+    }
+  }
+
+  private _maskKeys(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((v) => this._maskKeys(v));
+    }
+    if (value !== null && typeof value === 'object') {
+      const result: Record<string, any> = {};
+      for (const [k, v] of Object.entries(value)) {
+        result[k] = this.maskedKeys.has(k.toLowerCase())
+          ? this.options.mask ?? DEFAULT_MASK
+          : this._maskKeys(v);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  private _truncate(value: string, attributeName?: string): string {
+    const limit = (attributeName !== undefined
+      ? this.options.maxLengthByAttribute?.[attributeName]
+      : undefined) ?? this.options.maxLength;
+    if (limit === undefined || value.length <= limit) {
+      return value;
+    }
+    return value.slice(0, limit) + (this.options.truncationMarker ?? DEFAULT_TRUNCATION_MARKER);
+  }
+}
+
+function _globalRegExp(pattern: RegExp): RegExp {
+  return pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+}
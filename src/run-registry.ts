@@ -0,0 +1,288 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { Context, Span, Tracer } from '@opentelemetry/api';
+import type { GenerationChunk } from '@langchain/core/outputs';
+import type { ProviderAdapter } from './providers.js';
+import type { RunInfo } from './hooks.js';
+import type { PromptTemplateInfo } from './prompts.js';
+import type { GenerationInfo } from './structured-output.js';
+
+export class SpanHolder {
+  span: Span;
+  children: string[];
+  startTime: number;
+  parentRunId?: string;
+  // The context that descendants of this run and its downstream work start from
+  context?: Context;
+  tracer?: Tracer;
+  ended = false;
+  // LangGraph graph runs, and the node steps inside them
+  isGraph = false;
+  graphNode?: string;
+  threadId?: string;
+  checkpointNs?: string;
+  requestModel?: string;
+  responseModel?: string;
+  runType?: 'llm' | 'chain' | 'tool' | 'retriever' | 'embeddings';
+  operationName?: string;
+  system?: string;
+  providerAdapter?: ProviderAdapter;
+  // What the span hooks are told about the run
+  runInfo?: RunInfo;
+  // The latest prompt template run below this run, for the model calls that follow it
+  promptInfo?: PromptTemplateInfo;
+  // The latest model call below this run, for the output parser that follows it
+  lastGeneration?: GenerationInfo;
+  // The schema a model call asks for, or an output parser extracts
+  structuredOutputSchema?: string;
+  // withStructuredOutput pipelines and the output parsers in them
+  structuredOutput = false;
+  outputParser = false;
+  // RunnableRetry and RunnableWithFallbacks runs, whose child runs are attempts
+  retryRun = false;
+  fallbacksRun = false;
+  attemptCount = 0;
+  lastAttemptEndTime?: number;
+  // Set on the attempts of a retry or fallbacks run
+  retryAttempt?: number;
+  retryBackoffMs?: number;
+  fallbackIndex?: number;
+  // Set when the tool was invoked with a tool call
+  toolCallId?: string;
+  firstTokenTime?: number;
+  chunkCount = 0;
+  chunkEventCount = 0;
+  lastChunkEventTime?: number;
+  streamedGenerations?: Map<string, GenerationChunk>;
+  // Estimated cost of the model calls below a root run, in US dollars
+  totalCost = 0;
+
+  constructor(span: Span, children: string[] = [], requestModel?: string) {
+    this.span = span;
+    this.children = children;
+    this.startTime = Date.now();
+    this.requestModel = requestModel;
+  }
+}
+
+export interface SkippedRun {
+  parentRunId?: string;
+  startTime: number;
+  // Whatever the handler needs when the run ends
+  details?: Record<string, any>;
+}
+
+export interface RunRegistryOptions {
+  /** Runs still open after this many milliseconds are aborted by the sweeper */
+  ttlMs?: number;
+  /** Oldest runs are aborted once more than this many are pending */
+  maxSize?: number;
+  /** How often the sweeper looks for expired runs */
+  sweepIntervalMs?: number;
+}
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SIZE = 10000;
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const ABORT_REASON_ATTRIBUTE = 'langchain.run.abort_reason';
+
+export enum RunAbortReason {
+  PARENT_ENDED = 'parent_ended',
+  EXPIRED = 'expired',
+  EVICTED = 'evicted',
+  SHUTDOWN = 'shutdown',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Tracks the span of every in-flight LangChain run. Runs are removed as soon
+ * as they end, and runs whose end callback never fires are aborted by a
+ * periodic sweep so the map cannot grow without bound.
+ */
+export class RunRegistry extends Map<string, SpanHolder> {
+  private ttlMs = DEFAULT_TTL_MS;
+  private maxSize = DEFAULT_MAX_SIZE;
+  private sweepIntervalMs = DEFAULT_SWEEP_INTERVAL_MS;
+  private sweepTimer?: ReturnType<typeof setInterval>;
+  // Runs that have no span of their own, mapped to their parent run
+  private skipped = new Map<string, SkippedRun>();
+  // Recently aborted runs, whose end callbacks may still arrive. Oldest first, at most maxSize.
+  private aborted = new Set<string>();
+
+  constructor(options: RunRegistryOptions = {}) {
+    super();
+    this.configure(options);
+  }
+
+  public configure(options: RunRegistryOptions): void {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    const sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+    if (sweepIntervalMs !== this.sweepIntervalMs) {
+      this.sweepIntervalMs = sweepIntervalMs;
+      this._stopSweeper();
+      if (this.size > 0 || this.skipped.size > 0) {
+        this._startSweeper();
+      }
+    }
+  }
+
+  public override set(runId: string, spanHolder: SpanHolder): this {
+    super.set(runId, spanHolder);
+    this._startSweeper();
+
+    // Maps iterate in insertion order, so the first entries are the oldest runs
+    while (this.size > this.maxSize) {
+      const oldest = this.keys().next().value as string;
+      this.abort(oldest, RunAbortReason.EVICTED);
+    }
+    return this;
+  }
+
+  public override delete(runId: string): boolean {
+    const deleted = super.delete(runId);
+    if (this.size === 0 && this.skipped.size === 0) {
+      this._stopSweeper();
+    }
+    return deleted;
+  }
+
+  public override clear(): void {
+    super.clear();
+    this.skipped.clear();
+    this.aborted.clear();
+    this._stopSweeper();
+  }
+
+  /**
+   * Remember a run that is not traced so its children attach to its parent
+   */
+  public skip(runId: string, parentRunId?: string, details?: Record<string, any>): void {
+    this.skipped.set(runId, { parentRunId, startTime: Date.now(), details });
+    this._startSweeper();
+  }
+
+  public getSkipped(runId: string): SkippedRun | undefined {
+    return this.skipped.get(runId);
+  }
+
+  /**
+   * The nearest ancestor of a run that has a span, skipping untraced runs
+   */
+  public resolveParent(parentRunId?: string): string | undefined {
+    const seen = new Set<string>();
+    while (parentRunId && this.skipped.has(parentRunId) && !seen.has(parentRunId)) {
+      seen.add(parentRunId);
+      parentRunId = this.skipped.get(parentRunId)!.parentRunId;
+    }
+    return parentRunId;
+  }
+
+  /**
+   * Forget an untraced or aborted run once it ends. Returns false for traced runs.
+   */
+  public release(runId: string): boolean {
+    if (this.aborted.delete(runId)) {
+      return true;
+    }
+    const released = this.skipped.delete(runId);
+    if (released && this.size === 0 && this.skipped.size === 0) {
+      this._stopSweeper();
+    }
+    return released;
+  }
+
+  /**
+   * Remove a finished run and detach it from its parent
+   */
+  public complete(runId: string): void {
+    const spanHolder = this.get(runId);
+    if (!spanHolder) {
+      return;
+    }
+    spanHolder.ended = true;
+    if (spanHolder.parentRunId) {
+      const parent = this.get(spanHolder.parentRunId);
+      if (parent) {
+        parent.children = parent.children.filter((id) => id !== runId);
+      }
+    }
+    this.delete(runId);
+  }
+
+  /**
+   * End a run that can no longer complete normally, along with its open children
+   */
+  public abort(runId: string, reason: RunAbortReason): void {
+    const spanHolder = this.get(runId);
+    if (!spanHolder) {
+      return;
+    }
+    for (const childId of [...spanHolder.children]) {
+      this.abort(childId, reason);
+    }
+    if (!spanHolder.ended) {
+      spanHolder.span.setAttribute(ABORT_REASON_ATTRIBUTE, reason);
+      // A consumer that stops reading a stream is not an error
+      if (reason !== RunAbortReason.CANCELLED) {
+        spanHolder.span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: `Run aborted before completion: ${reason}`,
+        });
+      }
+      spanHolder.span.end();
+      this._rememberAborted(runId);
+    }
+    this.complete(runId);
+  }
+
+  /**
+   * Abort every run that has outlived the TTL
+   */
+  public sweep(now: number = Date.now()): void {
+    for (const [runId, spanHolder] of [...this.entries()]) {
+      if (this.has(runId) && now - spanHolder.startTime > this.ttlMs) {
+        this.abort(runId, RunAbortReason.EXPIRED);
+      }
+    }
+    for (const [runId, skippedRun] of [...this.skipped.entries()]) {
+      if (now - skippedRun.startTime > this.ttlMs) {
+        this.release(runId);
+      }
+    }
+  }
+
+  /**
+   * Abort every pending run, e.g. when the instrumentation shuts down
+   */
+  public abortAll(reason: RunAbortReason = RunAbortReason.SHUTDOWN): void {
+    for (const runId of [...this.keys()]) {
+      this.abort(runId, reason);
+    }
+    this.skipped.clear();
+    this._stopSweeper();
+  }
+
+  private _rememberAborted(runId: string): void {
+    this.aborted.add(runId);
+    if (this.aborted.size > this.maxSize) {
+      this.aborted.delete(this.aborted.values().next().value as string);
+    }
+  }
+
+  private _startSweeper(): void {
+    if (this.sweepTimer || this.sweepIntervalMs <= 0) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => this.sweep(), this.sweepIntervalMs);
+    // The sweeper must never keep the process alive on its own
+    this.sweepTimer.unref?.();
+  }
+
+  private _stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+}
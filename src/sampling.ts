@@ -0,0 +1,175 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { Context } from '@opentelemetry/api';
+import type { ReadableSpan, Span, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+
+export interface ContentAwareSamplingOptions {
+  /**
+   * Share of the remaining traces to keep, decided from the trace id so every
+   * service sampling the same way keeps the same traces. Defaults to 1.
+   */
+  ratio?: number;
+  /**
+   * Keep traces with a span whose status is error. Defaults to true.
+   */
+  keepErrors?: boolean;
+  /**
+   * Keep traces whose local root ran at least this long
+   */
+  latencyThresholdMs?: number;
+  /**
+   * Keep traces for which this returns true, e.g. based on cost or model
+   */
+  keep?: (spans: ReadableSpan[]) => boolean;
+  /**
+   * Traces buffered at once. When more are in flight the oldest is passed on
+   * unsampled rather than dropped.
+   */
+  maxBufferedTraces?: number;
+  /**
+   * Spans buffered per trace, later spans of a trace pass straight through
+   */
+  maxSpansPerTrace?: number;
+}
+
+const DEFAULT_MAX_BUFFERED_TRACES = 1000;
+const DEFAULT_MAX_SPANS_PER_TRACE = 1000;
+
+interface BufferedTrace {
+  spans: ReadableSpan[];
+  overflowed: boolean;
+}
+
+function _durationMs(span: ReadableSpan): number {
+  return span.duration[0] * 1000 + span.duration[1] / 1e6;
+}
+
+function _isLocalRoot(span: ReadableSpan): boolean {
+  return !span.parentSpanContext || span.parentSpanContext.isRemote === true;
+}
+
+/**
+ * A span processor that holds the spans of each trace until its local root
+ * ends, then passes the whole trace to the wrapped processor or drops it.
+ * Traces with errors or slow roots are always kept, the rest are sampled by
+ * ratio, so high volume pipelines keep complete traces of what went wrong.
+ */
+export class ContentAwareSamplingProcessor implements SpanProcessor {
+  private delegate: SpanProcessor;
+  private ratio: number;
+  private keepErrors: boolean;
+  private latencyThresholdMs?: number;
+  private keep?: (spans: ReadableSpan[]) => boolean;
+  private maxBufferedTraces: number;
+  private maxSpansPerTrace: number;
+  private traces = new Map<string, BufferedTrace>();
+  // Decisions of recently finished traces, for spans that end after their root
+  private decisions = new Map<string, boolean>();
+
+  constructor(delegate: SpanProcessor, options: ContentAwareSamplingOptions = {}) {
+    this.delegate = delegate;
+    this.ratio = options.ratio ?? 1;
+    this.keepErrors = options.keepErrors ?? true;
+    this.latencyThresholdMs = options.latencyThresholdMs;
+    this.keep = options.keep;
+    this.maxBufferedTraces = options.maxBufferedTraces ?? DEFAULT_MAX_BUFFERED_TRACES;
+    this.maxSpansPerTrace = options.maxSpansPerTrace ?? DEFAULT_MAX_SPANS_PER_TRACE;
+  }
+
+  public onStart(span: Span, parentContext: Context): void {
+    this.delegate.onStart(span, parentContext);
+  }
+
+  public onEnd(span: ReadableSpan): void {
+    const traceId = span.spanContext().traceId;
+    const decision = this.decisions.get(traceId);
+    if (decision !== undefined) {
+      if (decision) {
+        this.delegate.onEnd(span);
+      }
+      return;
+    }
+
+    let trace = this.traces.get(traceId);
+    if (!trace) {
+      trace = { spans: [], overflowed: false };
+      this.traces.set(traceId, trace);
+      this._evictOldest();
+    }
+    if (trace.spans.length < this.maxSpansPerTrace) {
+      trace.spans.push(span);
+    } else {
+      trace.overflowed = true;
+      this.delegate.onEnd(span);
+    }
+
+    if (_isLocalRoot(span)) {
+      this._decide(traceId, trace, span);
+    }
+  }
+
+  public async forceFlush(): Promise<void> {
+    await this.delegate.forceFlush();
+  }
+
+  /**
+   * Pass on the traces still buffered, their root never ended
+   */
+  public async shutdown(): Promise<void> {
+    for (const trace of this.traces.values()) {
+      trace.spans.forEach((span) => this.delegate.onEnd(span));
+    }
+    this.traces.clear();
+    this.decisions.clear();
+    await this.delegate.shutdown();
+  }
+
+  private _shouldKeep(traceId: string, trace: BufferedTrace, root: ReadableSpan): boolean {
+    // Part of the trace was already passed on, keep the rest of it complete
+    if (trace.overflowed) {
+      return true;
+    }
+    if (this.keepErrors && trace.spans.some((span) => span.status.code === SpanStatusCode.ERROR)) {
+      return true;
+    }
+    if (this.latencyThresholdMs !== undefined && _durationMs(root) >= this.latencyThresholdMs) {
+      return true;
+    }
+    if (this.keep?.(trace.spans)) {
+      return true;
+    }
+    // Same scheme as the TraceIdRatioBased sampler, on the last 8 hex digits of the id
+    return parseInt(traceId.slice(-8), 16) / 0xffffffff < this.ratio;
+  }
+
+  private _decide(traceId: string, trace: BufferedTrace, root: ReadableSpan): void {
+    let keep: boolean;
+    try {
+      keep = this._shouldKeep(traceId, trace, root);
+    } catch {
+      // A failing keep callback must not lose the trace
+      keep = true;
+    }
+    this.traces.delete(traceId);
+    this._remember(traceId, keep);
+    if (keep) {
+      trace.spans.forEach((span) => this.delegate.onEnd(span));
+    }
+  }
+
+  private _evictOldest(): void {
+    // Maps iterate in insertion order, so the first entry is the oldest trace
+    while (this.traces.size > this.maxBufferedTraces) {
+      const [traceId, trace] = this.traces.entries().next().value as [string, BufferedTrace];
+      this.traces.delete(traceId);
+      this._remember(traceId, true);
+      trace.spans.forEach((span) => this.delegate.onEnd(span));
+    }
+  }
+
+  private _remember(traceId: string, keep: boolean): void {
+    this.decisions.set(traceId, keep);
+    if (this.decisions.size > this.maxBufferedTraces) {
+      this.decisions.delete(this.decisions.keys().next().value as string);
+    }
+  }
+}
@@ -0,0 +1,273 @@
+import type { AttributeValue } from '@opentelemetry/api';
+import { getMessageRole } from './events.js';
+
+export type JSONValue = string | number | boolean | null | JSONValue[] | { [key: string]: JSONValue };
+
+/**
+ * How captured payloads are recorded on spans:
+ *  - `json`: one attribute holding the payload as JSON
+ *  - `flattened`: one attribute per leaf, e.g. `gen_ai.prompt.0.role`, for
+ *    backends that cannot query JSON
+ */
+export type ContentFormat = 'json' | 'flattened';
+
+export const CONTENT_FORMATS: ContentFormat[] = ['json', 'flattened'];
+
+export interface SerializerOptions {
+  /** Nesting depth past which objects and arrays are replaced by a placeholder, 10 by default */
+  maxDepth?: number;
+  /** Array items, map entries and object keys kept per level, 100 by default */
+  maxItems?: number;
+  /** Length past which strings inside a payload are cut, unlimited by default */
+  maxStringLength?: number;
+  /** Attributes recorded per payload in the flattened format, 128 by default */
+  maxFlattenedKeys?: number;
+}
+
+const DEFAULT_MAX_DEPTH = 10;
+const DEFAULT_MAX_ITEMS = 100;
+const DEFAULT_MAX_FLATTENED_KEYS = 128;
+
+// Keys added to objects cut short by maxItems
+const TRUNCATED_KEY = '__truncated__';
+
+function _isMessage(value: any): boolean {
+  return (typeof value.getType === 'function' || typeof value._getType === 'function') && 'content' in value;
+}
+
+// ChatPromptValue and StringPromptValue, what prompt templates hand to models
+function _isPromptValue(value: any): boolean {
+  return typeof value.toChatMessages === 'function';
+}
+
+function _isDocument(value: any): boolean {
+  return typeof value.pageContent === 'string' && typeof value.metadata === 'object';
+}
+
+function _isAgentAction(value: any): boolean {
+  return typeof value.tool === 'string' && 'toolInput' in value;
+}
+
+function _isAgentStep(value: any): boolean {
+  return value.action !== null && typeof value.action === 'object' && _isAgentAction(value.action) &&
+    'observation' in value;
+}
+
+function _className(value: object): string {
+  return value.constructor?.name ?? 'Object';
+}
+
+/**
+ * Turns the inputs and outputs of LangChain runs into stable JSON. LangChain
+ * messages, prompt values, documents and agent steps get a compact shape,
+ * cycles, binary data and values JSON cannot hold are replaced by
+ * placeholders, and object keys are sorted so equal payloads serialize equally.
+ */
+export class Serializer {
+  private maxDepth: number;
+  private maxItems: number;
+  private maxStringLength?: number;
+  private maxFlattenedKeys: number;
+
+  constructor(options: SerializerOptions = {}) {
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    this.maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+    this.maxStringLength = options.maxStringLength;
+    this.maxFlattenedKeys = options.maxFlattenedKeys ?? DEFAULT_MAX_FLATTENED_KEYS;
+  }
+
+  /**
+   * A JSON-safe copy of a value
+   */
+  public toJSONValue(value: unknown): JSONValue {
+    return this._convert(value, 0, new WeakSet<object>());
+  }
+
+  /**
+   * A value as JSON, strings are returned as they are
+   */
+  public stringify(value: unknown): string {
+    return typeof value === 'string' ? this._truncate(value) : JSON.stringify(this.toJSONValue(value));
+  }
+
+  /**
+   * The leaves of a value keyed by their dotted path, e.g. `0.role`. A
+   * primitive value is returned under the empty key.
+   */
+  public flatten(value: unknown): Record<string, AttributeValue> {
+    const result: Record<string, AttributeValue> = {};
+    let count = 0;
+    const visit = (node: JSONValue, path: string) => {
+      if (count >= this.maxFlattenedKeys || node === null) {
+        return;
+      }
+      if (typeof node !== 'object') {
+        result[path] = node;
+        count++;
+        return;
+      }
+      const entries = Array.isArray(node) ? node.map((v, i) => [String(i), v] as const) : Object.entries(node);
+      for (const [key, child] of entries) {
+        visit(child, path === '' ? key : `${path}.${key}`);
+      }
+    };
+    visit(this.toJSONValue(value), '');
+    return result;
+  }
+
+  /**
+   * A value as a span attribute value: primitives and arrays of strings are
+   * kept, anything else becomes JSON
+   */
+  public toAttributeValue(value: unknown): AttributeValue | undefined {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((v) => this.stringify(v ?? null));
+    }
+    return this.stringify(value);
+  }
+
+  private _truncate(value: string): string {
+    if (this.maxStringLength === undefined || value.length <= this.maxStringLength) {
+      return value;
+    }
+    return `${value.slice(0, this.maxStringLength)}...[truncated]`;
+  }
+
+  private _convert(value: unknown, depth: number, ancestors: WeakSet<object>): JSONValue {
+    switch (typeof value) {
+      case 'string':
+        return this._truncate(value);
+      case 'number':
+        return Number.isFinite(value) ? value : String(value);
+      case 'boolean':
+        return value;
+      case 'bigint':
+        return value.toString();
+      case 'symbol':
+        return value.toString();
+      case 'function':
+        return `[Function ${value.name || 'anonymous'}]`;
+      case 'undefined':
+        return null;
+    }
+    if (value === null) {
+      return null;
+    }
+
+    const object = value as any;
+    if (object instanceof Date) {
+      return Number.isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString();
+    }
+    if (ArrayBuffer.isView(object) || object instanceof ArrayBuffer) {
+      return `[${_className(object)} ${object.byteLength} bytes]`;
+    }
+    if (object instanceof Error) {
+      return { name: object.name, message: this._truncate(object.message) };
+    }
+    // Only ancestors count, the same object may appear in sibling branches
+    if (ancestors.has(object)) {
+      return '[Circular]';
+    }
+    if (depth >= this.maxDepth) {
+      return Array.isArray(object) ? '[Array]' : `[${_className(object)}]`;
+    }
+
+    ancestors.add(object);
+    try {
+      return this._convertObject(object, depth + 1, ancestors);
+    } finally {
+      ancestors.delete(object);
+    }
+  }
+
+  private _convertObject(object: any, depth: number, ancestors: WeakSet<object>): JSONValue {
+    const convert = (v: unknown) => this._convert(v, depth, ancestors);
+
+    if (Array.isArray(object)) {
+      return this._convertItems(object, convert);
+    }
+    if (object instanceof Set) {
+      return this._convertItems([...object], convert);
+    }
+    if (object instanceof Map) {
+      return this._convertEntries([...object].map(([k, v]) => [String(k), v]), convert);
+    }
+    if (_isMessage(object)) {
+      return this._convertEntries([
+        ['role', getMessageRole(object)],
+        ['content', object.content],
+        ['name', object.name],
+        ['tool_calls', object.tool_calls?.length ? object.tool_calls : undefined],
+        ['tool_call_id', object.tool_call_id],
+        ['usage_metadata', object.usage_metadata],
+      ], convert, false);
+    }
+    if (_isPromptValue(object)) {
+      // Chat prompt values become their messages, string prompt values their text
+      return Array.isArray(object.messages) ? convert(object.messages) : convert(object.toString());
+    }
+    if (_isDocument(object)) {
+      return this._convertEntries([
+        ['id', object.id],
+        ['page_content', object.pageContent],
+        ['metadata', object.metadata],
+      ], convert, false);
+    }
+    if (_isAgentStep(object)) {
+      return this._convertEntries([['action', object.action], ['observation', object.observation]], convert, false);
+    }
+    if (_isAgentAction(object)) {
+      // The message log repeats the model call the action came from
+      return this._convertEntries([
+        ['tool', object.tool],
+        ['tool_input', object.toolInput],
+        ['log', object.log],
+      ], convert, false);
+    }
+    if (typeof object.toJSON === 'function') {
+      // LangChain serializables mask their secrets in toJSON
+      try {
+        const json = object.toJSON();
+        if (json !== object) {
+          return convert(json);
+        }
+      } catch {
+        return `[${_className(object)}]`;
+      }
+    }
+    return this._convertEntries(Object.entries(object), convert);
+  }
+
+  private _convertItems(items: unknown[], convert: (v: unknown) => JSONValue): JSONValue[] {
+    const result = items.slice(0, this.maxItems).map(convert);
+    if (items.length > this.maxItems) {
+      result.push(`[${items.length - this.maxItems} more]`);
+    }
+    return result;
+  }
+
+  private _convertEntries(
+    entries: [string, unknown][],
+    convert: (v: unknown) => JSONValue,
+    sort = true
+  ): { [key: string]: JSONValue } {
+    const defined = entries.filter(([, v]) => v !== undefined);
+    if (sort) {
+      defined.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    }
+    const result: { [key: string]: JSONValue } = {};
+    for (const [key, v] of defined.slice(0, this.maxItems)) {
+      result[key] = convert(v);
+    }
+    if (defined.length > this.maxItems) {
+      result[TRUNCATED_KEY] = `${defined.length - this.maxItems} more keys`;
+    }
+    return result;
+  }
+}
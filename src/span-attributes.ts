@@ -1,5 +1,8 @@
 export enum GenAIOperationValues {
   CHAT = 'chat',
+  RETRIEVE = 'retrieve',
+  EMBEDDINGS = 'embeddings',
+  INVOKE_AGENT = 'invoke_agent',
   // Add other operation values as needed
 }
 
@@ -9,13 +12,82 @@ export const Span_Attributes = {
   GEN_AI_REQUEST_MAX_TOKENS: 'gen_ai.request.max_tokens',
   GEN_AI_REQUEST_TEMPERATURE: 'gen_ai.request.temperature',
   GEN_AI_REQUEST_TOP_P: 'gen_ai.request.top_p',
+  GEN_AI_REQUEST_TOP_K: 'gen_ai.request.top_k',
+  GEN_AI_REQUEST_STOP_SEQUENCES: 'gen_ai.request.stop_sequences',
+  GEN_AI_REQUEST_FREQUENCY_PENALTY: 'gen_ai.request.frequency_penalty',
+  GEN_AI_REQUEST_PRESENCE_PENALTY: 'gen_ai.request.presence_penalty',
+  GEN_AI_REQUEST_SEED: 'gen_ai.request.seed',
   GEN_AI_SYSTEM: 'gen_ai.system',
   GEN_AI_OPERATION_NAME: 'gen_ai.operation.name',
   GEN_AI_RESPONSE_ID: 'gen_ai.response.id',
+  GEN_AI_RESPONSE_FINISH_REASONS: 'gen_ai.response.finish_reasons',
+  GEN_AI_RESPONSE_TOOL_CALL_IDS: 'gen_ai.response.tool_calls.ids',
+  GEN_AI_RESPONSE_TOOL_CALL_NAMES: 'gen_ai.response.tool_calls.names',
   GEN_AI_USAGE_INPUT_TOKENS: 'gen_ai.usage.input_tokens',
   GEN_AI_USAGE_OUTPUT_TOKENS: 'gen_ai.usage.output_tokens',
+  GEN_AI_USAGE_CACHE_READ_INPUT_TOKENS: 'gen_ai.usage.cache_read.input_tokens',
+  GEN_AI_USAGE_REASONING_OUTPUT_TOKENS: 'gen_ai.usage.reasoning.output_tokens',
+  GEN_AI_USAGE_COST: 'gen_ai.usage.cost',
+  GEN_AI_USAGE_TOTAL_COST: 'gen_ai.usage.total_cost',
   GEN_AI_AGENT_NAME: 'gen_ai.agent.name',
-  GEN_AI_TOOL_CALL_ID: 'gen_ai.tool.call_id',
+  GEN_AI_TOOL_CALL_ID: 'gen_ai.tool.call.id',
+  GEN_AI_TOOL_CALL_ARGUMENTS: 'gen_ai.tool.call.arguments',
+  GEN_AI_TOOL_DEFINITIONS: 'gen_ai.tool.definitions',
   GEN_AI_TOOL_DESCRIPTION: 'gen_ai.tool.description',
   GEN_AI_TOOL_NAME: 'gen_ai.tool.name',
-};
\ No newline at end of file
+  GEN_AI_TOOL_TYPE: 'gen_ai.tool.type',
+  GEN_AI_TOOL_PARAMETERS: 'gen_ai.tool.parameters',
+  GEN_AI_TOOL_RETURN_DIRECT: 'gen_ai.tool.return_direct',
+  GEN_AI_TOOL_STATUS: 'gen_ai.tool.status',
+  GEN_AI_TOOL_ARTIFACT: 'gen_ai.tool.artifact',
+  GEN_AI_EMBEDDINGS_INPUT_COUNT: 'gen_ai.embeddings.input.count',
+  GEN_AI_EMBEDDINGS_DIMENSION_COUNT: 'gen_ai.embeddings.dimension.count',
+  GEN_AI_RETRIEVAL_QUERY: 'gen_ai.retrieval.query',
+  GEN_AI_RETRIEVAL_RETRIEVER_NAME: 'gen_ai.retrieval.retriever.name',
+  GEN_AI_RETRIEVAL_VECTOR_STORE: 'gen_ai.retrieval.vector_store',
+  GEN_AI_RETRIEVAL_TOP_K: 'gen_ai.retrieval.top_k',
+  GEN_AI_RETRIEVAL_SEARCH_TYPE: 'gen_ai.retrieval.search_type',
+  GEN_AI_RETRIEVAL_DOCUMENTS_COUNT: 'gen_ai.retrieval.documents.count',
+  GEN_AI_RETRIEVAL_DOCUMENT_IDS: 'gen_ai.retrieval.document.ids',
+  GEN_AI_RETRIEVAL_DOCUMENT_SOURCES: 'gen_ai.retrieval.document.sources',
+  GEN_AI_RETRIEVAL_DOCUMENT_SCORES: 'gen_ai.retrieval.document.scores',
+  GEN_AI_RESPONSE_TIME_TO_FIRST_TOKEN: 'gen_ai.response.time_to_first_token',
+  GEN_AI_RESPONSE_TIME_PER_OUTPUT_TOKEN: 'gen_ai.response.time_per_output_token',
+  GEN_AI_RESPONSE_CHUNK_COUNT: 'gen_ai.response.chunk_count',
+  ERROR_TYPE: 'error.type',
+  EXCEPTION_TYPE: 'exception.type',
+  HTTP_RESPONSE_STATUS_CODE: 'http.response.status_code',
+  HTTP_RESPONSE_HEADER_PREFIX: 'http.response.header.',
+  LANGCHAIN_RETRY_ATTEMPT: 'langchain.retry.attempt',
+  LANGCHAIN_RETRY_ATTEMPTS: 'langchain.retry.attempts',
+  LANGCHAIN_RETRY_BACKOFF_MS: 'langchain.retry.backoff_ms',
+  LANGCHAIN_FALLBACK_INDEX: 'langchain.fallback.index',
+  LANGCHAIN_FALLBACK_RUN: 'langchain.fallback.run',
+  LANGCHAIN_FALLBACK_MODEL: 'langchain.fallback.model',
+  LANGCHAIN_PROMPT_NAME: 'langchain.prompt.name',
+  LANGCHAIN_PROMPT_ID: 'langchain.prompt.id',
+  LANGCHAIN_PROMPT_VERSION: 'langchain.prompt.version',
+  LANGCHAIN_PROMPT_HUB_REF: 'langchain.prompt.hub.ref',
+  LANGCHAIN_PROMPT_HUB_COMMIT: 'langchain.prompt.hub.commit',
+  LANGCHAIN_PROMPT_HASH: 'langchain.prompt.hash',
+  LANGCHAIN_PROMPT_VARIABLES: 'langchain.prompt.variables',
+  LANGCHAIN_STRUCTURED_OUTPUT_SCHEMA: 'langchain.structured_output.schema',
+  LANGCHAIN_STRUCTURED_OUTPUT_PARSED: 'langchain.structured_output.parsed',
+  LANGCHAIN_CUSTOM_EVENT_DATA: 'langchain.custom_event.data',
+  LANGGRAPH_NODE: 'langgraph.node',
+  LANGGRAPH_STEP: 'langgraph.step',
+  LANGGRAPH_TRIGGERS: 'langgraph.triggers',
+  LANGGRAPH_THREAD_ID: 'langgraph.thread_id',
+  LANGGRAPH_CHECKPOINT_NS: 'langgraph.checkpoint_ns',
+  LANGGRAPH_INTERRUPTED: 'langgraph.interrupted',
+  LANGGRAPH_RESUMED: 'langgraph.resumed',
+  LANGGRAPH_EDGE_SOURCE: 'langgraph.edge.source',
+  LANGGRAPH_EDGE_DESTINATIONS: 'langgraph.edge.destinations',
+};
+
+/**
+ * Attributes renamed by the latest experimental GenAI semantic conventions
+ */
+export const Latest_Semconv_Attributes: Record<string, string> = {
+  [Span_Attributes.GEN_AI_SYSTEM]: 'gen_ai.provider.name',
+};
@@ -0,0 +1,78 @@
+import type { SpanContext } from '@opentelemetry/api';
+import type { Serialized } from '@langchain/core/load/serializable';
+import type { ToolDefinition } from './providers.js';
+
+/**
+ * A model call whose output a parser may consume next
+ */
+export interface GenerationInfo {
+  spanContext: SpanContext;
+  // The schema the model was asked to answer with, when the request tells
+  schemaName?: string;
+}
+
+// Run names withStructuredOutput gives the model and parser pipeline, e.g. ChatOpenAIStructuredOutput
+const STRUCTURED_OUTPUT_RUN_NAME = /StructuredOutput(Runnable)?$/;
+
+// Parsers that extract structured data, e.g. JsonOutputParser, StructuredOutputParser,
+// JsonOutputKeyToolsParser or OutputFunctionsParser. String and list parsers are not among them.
+const STRUCTURED_PARSER_CLASS_NAME = /(Json|Structured).*Parser$|(Tools|Functions)Parser$/;
+
+const FREE_TOOL_CHOICES = ['auto', 'none', 'required', 'any'];
+
+function _className(serialized: Serialized | undefined): string | undefined {
+  const id = serialized?.id;
+  return Array.isArray(id) ? id[id.length - 1] : undefined;
+}
+
+export function isStructuredOutputRun(name: string): boolean {
+  return STRUCTURED_OUTPUT_RUN_NAME.test(name);
+}
+
+/**
+ * Output parsers that produce structured output, including the tool call
+ * parsers withStructuredOutput uses and any parser given a schema
+ */
+export function isOutputParserRun(serialized: Serialized | undefined): boolean {
+  const className = _className(serialized);
+  if (className === undefined || !className.endsWith('Parser')) {
+    return false;
+  }
+  return STRUCTURED_PARSER_CLASS_NAME.test(className) || getParserSchemaName(serialized) !== undefined;
+}
+
+/**
+ * The schema a parser extracts, as far as its serialized form tells
+ */
+export function getParserSchemaName(serialized: Serialized | undefined): string | undefined {
+  const kwargs = (serialized as any)?.kwargs ?? {};
+  for (const name of [kwargs.keyName, kwargs.key_name, kwargs.schema?.title, kwargs.schema?.name]) {
+    if (typeof name === 'string' && name !== '') {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The schema a model call asks for: a JSON schema response format, a forced
+ * tool choice, or the only tool bound to the model
+ */
+export function getRequestedSchemaName(
+  invocationParams: Record<string, any> = {},
+  toolDefinitions?: ToolDefinition[]
+): string | undefined {
+  const responseFormat = invocationParams.response_format;
+  if (typeof responseFormat?.json_schema?.name === 'string') {
+    return responseFormat.json_schema.name;
+  }
+  const toolChoice = invocationParams.tool_choice;
+  if (typeof toolChoice === 'string' && !FREE_TOOL_CHOICES.includes(toolChoice)) {
+    return toolChoice;
+  }
+  const forced = toolChoice?.function?.name ?? toolChoice?.name;
+  if (typeof forced === 'string') {
+    return forced;
+  }
+  return toolDefinitions?.length === 1 ? toolDefinitions[0].name : undefined;
+}
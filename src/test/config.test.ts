@@ -0,0 +1,110 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import type { LangChainInstrumentationConfig } from '../config.js';
+import { Config_Env_Vars, configFromEnv, resolveConfig, validateConfig } from '../config.js';
+import { FakeChatModel, LangChainTestHarness } from '../testing.js';
+
+const ENV_VARS = Object.values(Config_Env_Vars);
+
+function setEnv(values: Record<string, string>): void {
+  Object.assign(process.env, values);
+}
+
+describe('config', () => {
+  const harnesses: LangChainTestHarness[] = [];
+  const createHarness = (config: LangChainInstrumentationConfig) => {
+    const harness = new LangChainTestHarness(config);
+    harnesses.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    for (const name of ENV_VARS) {
+      delete process.env[name];
+    }
+    await Promise.all(harnesses.map((harness) => harness.shutdown()));
+    harnesses.length = 0;
+  });
+
+  it('reads overrides from the environment', () => {
+    assert.deepEqual(configFromEnv(), {});
+
+    setEnv({
+      [Config_Env_Vars.CAPTURE_MESSAGE_CONTENT]: ' TRUE ',
+      [Config_Env_Vars.CAPTURE_RETRIEVAL_DOCUMENTS]: 'false',
+      [Config_Env_Vars.MAX_ATTRIBUTE_LENGTH]: '512',
+      [Config_Env_Vars.TRACE_RUN_TYPES]: 'llm, Tool',
+      [Config_Env_Vars.SEMCONV_STABILITY_OPT_IN]: 'http,gen_ai_latest_experimental',
+      [Config_Env_Vars.DEBUG_CALLBACK_PAYLOADS]: '',
+    });
+    assert.deepEqual(configFromEnv(), {
+      captureMessageContent: true,
+      captureRetrievalDocuments: false,
+      maxAttributeLength: 512,
+      traceRunTypes: { chain: false, llm: true, tool: true, retriever: false, agent: false, embeddings: false },
+      semconvStability: 'gen_ai_latest_experimental',
+    });
+  });
+
+  it('removes invalid fields and describes them', () => {
+    const { config, errors } = validateConfig({
+      captureMessageContent: true,
+      maxAttributeLength: -1,
+      runTtlMs: 0,
+      detailLevel: 'verbose' as any,
+      traceRunTypes: { step: false } as any,
+      internalRunnables: ['RunnableSequence', 42] as any,
+      modelPrices: { 'gpt-4o': { input: 2.5, output: -1 } },
+      onSpanStart: 'not a function' as any,
+    });
+
+    assert.deepEqual(config, { captureMessageContent: true, runTtlMs: 0 });
+    assert.deepEqual(errors, [
+      'maxAttributeLength: must be a positive integer',
+      'traceRunTypes: unknown run type "step"',
+      'detailLevel: unknown value "verbose"',
+      'internalRunnables: must be an array of strings',
+      'modelPrices: invalid price for "gpt-4o"',
+      'onSpanStart: must be a function',
+    ]);
+  });
+
+  it('lets valid environment overrides take precedence', () => {
+    setEnv({
+      [Config_Env_Vars.CAPTURE_MESSAGE_CONTENT]: 'true',
+      [Config_Env_Vars.MAX_ATTRIBUTE_LENGTH]: 'many',
+    });
+    const { config, errors } = resolveConfig({ captureMessageContent: false, maxAttributeLength: 100 });
+
+    assert.equal(config.captureMessageContent, true);
+    assert.equal(config.maxAttributeLength, 100);
+    assert.deepEqual(errors, ['environment maxAttributeLength: must be a positive integer']);
+  });
+
+  it('applies environment overrides to the handler', async () => {
+    setEnv({
+      [Config_Env_Vars.CAPTURE_MESSAGE_CONTENT]: 'true',
+      [Config_Env_Vars.TRACE_RUN_TYPES]: 'chain',
+    });
+    const harness = createHarness({ captureMessageContent: false });
+    await new FakeChatModel().pipe(new StringOutputParser()).invoke('hi', { callbacks: harness.callbacks });
+
+    assert.deepEqual(
+      harness.getFinishedSpans().map((span) => span.name).sort(),
+      ['chain RunnableSequence', 'chain StrOutputParser']
+    );
+    const [sequence] = harness.getSpansByName('chain RunnableSequence');
+    assert.equal(sequence.attributes['gen_ai.prompt'], '{"input":"hi"}');
+  });
+
+  it('ignores invalid fields and keeps tracing with the rest', async () => {
+    const harness = createHarness({ detailLevel: 'verbose' as any, spanNameTemplates: { chain: '' } });
+    await new FakeChatModel().pipe(new StringOutputParser()).invoke('hi', { callbacks: harness.callbacks });
+
+    assert.deepEqual(
+      harness.getFinishedSpans().map((span) => span.name).sort(),
+      ['chain RunnableSequence', 'chain StrOutputParser', 'chat fake-chat-model']
+    );
+  });
+});
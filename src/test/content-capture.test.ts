@@ -0,0 +1,89 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpanStatusCode } from '@opentelemetry/api';
+import * as tools from '@langchain/core/tools';
+import { ToolMessage } from '@langchain/core/messages';
+import type { Serialized } from '@langchain/core/load/serializable';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import type { LangChainInstrumentationConfig } from '../config.js';
+import { FakeChatModel, FakeTool, LangChainTestHarness, getSpanAttributes } from '../testing.js';
+
+const CONTENT_ATTRIBUTES = [
+  'gen_ai.prompt',
+  'gen_ai.completion',
+  'gen_ai.tool.input',
+  'gen_ai.tool.output',
+  'gen_ai.tool.artifact',
+  'gen_ai.agent.tool.input',
+  'gen_ai.agent.tool.output',
+];
+
+const AGENT: Serialized = { lc: 1, type: 'not_implemented', id: ['langchain', 'agents', 'AgentExecutor'] };
+
+describe('message content capture', () => {
+  const harnesses: LangChainTestHarness[] = [];
+  const createHarness = (config: LangChainInstrumentationConfig) => {
+    const harness = new LangChainTestHarness(config);
+    harness.instrumentation.manuallyInstrument(tools);
+    harnesses.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    await Promise.all(harnesses.map((harness) => harness.shutdown()));
+    harnesses.length = 0;
+  });
+
+  // Agent runs report actions through callbacks only, drive them directly
+  const runAgent = async (harness: LangChainTestHarness) => {
+    const handler = harness.handler;
+    await handler.handleChainStart(AGENT, { input: 'question' }, 'agent-run');
+    await handler.handleAgentAction({ tool: 'search', toolInput: 'secret query', log: '' }, 'agent-run');
+    await handler.handleAgentEnd({ returnValues: { output: 'secret answer' }, log: '' }, 'agent-run');
+    await handler.handleChainEnd({ output: 'secret answer' }, 'agent-run');
+  };
+
+  it('records no inputs or outputs by default', async () => {
+    const harness = createHarness({});
+    await new FakeChatModel().pipe(new StringOutputParser()).invoke('secret', { callbacks: harness.callbacks });
+    await new FakeTool({ result: 'secret result' }).invoke({ input: 'secret' }, { callbacks: harness.callbacks });
+    await runAgent(harness);
+
+    for (const span of harness.getFinishedSpans()) {
+      for (const name of CONTENT_ATTRIBUTES) {
+        assert.equal(span.attributes[name], undefined, `${span.name} ${name}`);
+      }
+    }
+    const attributes = getSpanAttributes(harness.getFinishedSpans(), 'execute_tool fake_tool');
+    assert.equal(attributes?.['gen_ai.tool.name'], 'fake_tool');
+    assert.equal(getSpanAttributes(harness.getFinishedSpans(), /AgentExecutor/)?.['gen_ai.agent.tool.name'], 'search');
+  });
+
+  it('records tool and agent inputs and outputs when content is captured', async () => {
+    const harness = createHarness({ captureMessageContent: true });
+    await new FakeTool({ result: 'tool result' }).invoke({ input: 'tool input' }, { callbacks: harness.callbacks });
+    await runAgent(harness);
+
+    const spans = harness.getFinishedSpans();
+    const tool = getSpanAttributes(spans, 'execute_tool fake_tool');
+    assert.equal(tool?.['gen_ai.tool.input'], '{"input":"tool input"}');
+    assert.equal(tool?.['gen_ai.tool.output'], 'tool result');
+    const agent = getSpanAttributes(spans, /AgentExecutor/);
+    assert.equal(agent?.['gen_ai.agent.tool.input'], 'secret query');
+    assert.equal(agent?.['gen_ai.agent.tool.output'], 'secret answer');
+  });
+
+  it('keeps the error content of tool messages out of the status by default', async () => {
+    const harness = createHarness({});
+    const failing = tools.tool(
+      async () => new ToolMessage({ content: 'customer record 42', tool_call_id: 'call-1', status: 'error' }),
+      { name: 'failing', description: 'Always fails', schema: { type: 'object', properties: {} } }
+    );
+    await failing.invoke({}, { callbacks: harness.callbacks });
+
+    const [span] = harness.getSpansByName('execute_tool failing');
+    assert.equal(span.status.code, SpanStatusCode.ERROR);
+    assert.equal(span.status.message, undefined);
+    assert.equal(span.attributes['gen_ai.tool.status'], 'error');
+  });
+});
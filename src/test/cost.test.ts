@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CostCalculator, DEFAULT_MODEL_PRICES } from '../cost.js';
+
+describe('CostCalculator', () => {
+  const calculator = new CostCalculator();
+
+  it('matches listed models exactly and by version suffix', () => {
+    assert.equal(calculator.priceOf('gpt-4o'), DEFAULT_MODEL_PRICES['gpt-4o']);
+    assert.equal(calculator.priceOf('gpt-4o-2024-08-06'), DEFAULT_MODEL_PRICES['gpt-4o']);
+    assert.equal(calculator.priceOf('gpt-4o-mini-2024-07-18'), DEFAULT_MODEL_PRICES['gpt-4o-mini']);
+    assert.equal(calculator.priceOf('claude-sonnet-4-20250514'), DEFAULT_MODEL_PRICES['claude-sonnet-4']);
+    assert.equal(calculator.priceOf('claude-3-5-sonnet@20240620'), DEFAULT_MODEL_PRICES['claude-3-5-sonnet']);
+    assert.equal(calculator.priceOf('mistral-large-latest'), DEFAULT_MODEL_PRICES['mistral-large']);
+  });
+
+  it('strips provider paths and vendor prefixes', () => {
+    assert.equal(calculator.priceOf('models/gemini-1.5-pro-002'), DEFAULT_MODEL_PRICES['gemini-1.5-pro']);
+    assert.equal(
+      calculator.priceOf('us.anthropic.claude-3-5-sonnet-20241022-v2:0'),
+      DEFAULT_MODEL_PRICES['claude-3-5-sonnet']
+    );
+  });
+
+  it('does not price variants by the name they start with', () => {
+    assert.equal(calculator.priceOf('gpt-4.5-preview'), undefined);
+    assert.equal(calculator.priceOf('o1-pro'), undefined);
+    assert.equal(calculator.priceOf('gemini-2.5-flash-lite'), undefined);
+  });
+
+  it('bills cached input and reasoning tokens at their own prices', () => {
+    const custom = new CostCalculator({ 'my-model': { input: 2, output: 10, cachedInput: 1, reasoning: 20 } });
+    const cost = custom.estimate('my-model', {
+      inputTokens: 1_000_000,
+      outputTokens: 1_000_000,
+      cachedInputTokens: 500_000,
+      reasoningTokens: 500_000,
+    });
+    assert.equal(cost, 0.5 * 2 + 0.5 * 1 + 0.5 * 10 + 0.5 * 20);
+  });
+
+  it('returns undefined without usage or price', () => {
+    assert.equal(calculator.estimate('gpt-4o', {}), undefined);
+    assert.equal(calculator.estimate('unknown-model', { inputTokens: 10 }), undefined);
+  });
+});
@@ -0,0 +1,129 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import type { Histogram } from '@opentelemetry/sdk-metrics';
+import * as runnables from '@langchain/core/runnables';
+import { RunnableLambda } from '@langchain/core/runnables';
+import { Embeddings } from '@langchain/core/embeddings';
+import { Metric_Names } from '../metrics.js';
+import { LangChainTestHarness, expectSpanTree } from '../testing.js';
+
+/**
+ * Embeds texts as [length, 0, 1] and reports usage like the OpenAI integration
+ */
+class FakeEmbeddings extends Embeddings {
+  model = 'fake-embedding-model';
+  error?: Error;
+
+  constructor(error?: Error) {
+    super({});
+    this.error = error;
+  }
+
+  async embeddingWithRetry(texts: string[]) {
+    if (this.error) {
+      throw this.error;
+    }
+    return {
+      data: texts.map((text) => ({ embedding: [text.length, 0, 1] })),
+      usage: { prompt_tokens: texts.length * 2 },
+    };
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const response = await this.embeddingWithRetry(texts);
+    return response.data.map((item) => item.embedding);
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([text]);
+    return embedding;
+  }
+}
+
+describe('embeddings', () => {
+  let harness: LangChainTestHarness;
+  let tenantExporter: InMemorySpanExporter;
+  let tenantProvider: BasicTracerProvider;
+
+  const instrumented = (error?: Error) => {
+    const embeddings = new FakeEmbeddings(error);
+    harness.instrumentation.instrumentEmbeddings(embeddings);
+    return embeddings;
+  };
+
+  before(() => {
+    tenantExporter = new InMemorySpanExporter();
+    tenantProvider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(tenantExporter)] });
+    harness = new LangChainTestHarness({
+      tracerProviderResolver: (metadata) => (metadata.tenant === 'acme' ? tenantProvider : undefined),
+    });
+    harness.instrumentation.manuallyInstrument(runnables);
+  });
+
+  afterEach(() => {
+    harness.reset();
+    tenantExporter.reset();
+  });
+
+  after(async () => {
+    await harness.shutdown();
+    await tenantProvider.shutdown();
+  });
+
+  it('records input count, dimensions and token usage of embedDocuments', async () => {
+    await instrumented().embedDocuments(['a', 'bb']);
+
+    const [span] = harness.getSpansByName('embeddings fake-embedding-model');
+    assert.equal(span.kind, SpanKind.CLIENT);
+    assert.equal(span.attributes['gen_ai.operation.name'], 'embeddings');
+    assert.equal(span.attributes['gen_ai.request.model'], 'fake-embedding-model');
+    assert.equal(span.attributes['gen_ai.embeddings.input.count'], 2);
+    assert.equal(span.attributes['gen_ai.embeddings.dimension.count'], 3);
+    assert.equal(span.attributes['gen_ai.usage.input_tokens'], 4);
+
+    const metric = await harness.getMetric(Metric_Names.GEN_AI_CLIENT_TOKEN_USAGE);
+    const point = metric?.dataPoints.find((dataPoint) =>
+      dataPoint.attributes['gen_ai.operation.name'] === 'embeddings' && dataPoint.attributes['gen_ai.token.type'] === 'input'
+    );
+    assert.equal((point?.value as Histogram).sum, 4);
+  });
+
+  it('traces embedQuery delegating to embedDocuments as one call', async () => {
+    await instrumented().embedQuery('hello');
+
+    const spans = harness.getFinishedSpans();
+    assert.equal(spans.length, 1);
+    assert.equal(spans[0].attributes['gen_ai.embeddings.input.count'], 1);
+    assert.equal(spans[0].attributes['gen_ai.usage.input_tokens'], 2);
+  });
+
+  it('classifies failed calls', async () => {
+    const error = Object.assign(new Error('Too many requests'), { status: 429 });
+    await assert.rejects(instrumented(error).embedDocuments(['a']), /Too many requests/);
+
+    const [span] = harness.getSpansByName('embeddings fake-embedding-model');
+    assert.equal(span.status.code, SpanStatusCode.ERROR);
+    assert.equal(span.attributes['error.type'], 'rate_limit');
+    assert.equal(span.attributes['http.response.status_code'], 429);
+  });
+
+  it('nests calls made inside a run under its span and tracer provider', async () => {
+    const embeddings = instrumented();
+    const embed = RunnableLambda.from(async (text: string) => embeddings.embedQuery(text));
+    await embed.invoke('hi', { callbacks: harness.callbacks });
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'chain RunnableLambda',
+      children: [{ name: 'embeddings fake-embedding-model' }],
+    });
+
+    harness.reset();
+    await embed.invoke('hi', { callbacks: harness.callbacks, metadata: { tenant: 'acme' } });
+    assert.equal(harness.getFinishedSpans().length, 0);
+    expectSpanTree(tenantExporter.getFinishedSpans(), {
+      name: 'chain RunnableLambda',
+      children: [{ name: 'embeddings fake-embedding-model' }],
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RunnableLambda } from '@langchain/core/runnables';
+import { ErrorTypeValues, classifyError, getRateLimitHeaders, getRetryAttempt } from '../errors.js';
+import { FakeChatModel, LangChainTestHarness, expectSpanTree, getSpanAttributes } from '../testing.js';
+
+function httpError(message: string, status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(message), { status, headers });
+}
+
+describe('classifyError', () => {
+  it('maps provider errors onto the error taxonomy', () => {
+    assert.equal(classifyError(httpError('Too many requests', 429)), ErrorTypeValues.RATE_LIMIT);
+    assert.equal(classifyError(Object.assign(new Error('boom'), { name: 'TimeoutError' })), ErrorTypeValues.TIMEOUT);
+    assert.equal(classifyError(httpError('Invalid API key', 401)), ErrorTypeValues.AUTH);
+    assert.equal(
+      classifyError(httpError("This model's maximum context length is 8192 tokens", 400)),
+      ErrorTypeValues.CONTEXT_LENGTH_EXCEEDED
+    );
+    assert.equal(classifyError({ code: 'content_filter', message: 'blocked' }), ErrorTypeValues.CONTENT_FILTER);
+    assert.equal(classifyError(new Error('something else')), undefined);
+  });
+
+  it('reads rate limit headers and retry attempt tags', () => {
+    const error = httpError('slow down', 429, { 'Retry-After': '2', 'x-ratelimit-remaining-tokens': '0', server: 'x' });
+    assert.deepEqual(getRateLimitHeaders(error), { 'retry-after': '2', 'x-ratelimit-remaining-tokens': '0' });
+    assert.equal(getRetryAttempt(['seq:step:1', 'retry:attempt:3']), 3);
+    assert.equal(getRetryAttempt(['seq:step:1']), undefined);
+  });
+});
+
+describe('retries and fallbacks', () => {
+  let harness: LangChainTestHarness;
+
+  before(() => {
+    harness = new LangChainTestHarness();
+  });
+
+  afterEach(() => harness.reset());
+
+  after(() => harness.shutdown());
+
+  it('numbers retry attempts and records them on the retry run', async () => {
+    let calls = 0;
+    const flaky = RunnableLambda.from(async (input: string) => {
+      if (calls++ === 0) {
+        throw httpError('Too many requests', 429, { 'retry-after': '1' });
+      }
+      return input;
+    });
+    await flaky.withRetry({ stopAfterAttempt: 2 }).invoke('x', { callbacks: harness.callbacks });
+
+    const spans = harness.getFinishedSpans();
+    expectSpanTree(spans, {
+      name: 'chain RunnableLambda',
+      attributes: { 'langchain.retry.attempts': 2 },
+      children: [
+        {
+          name: 'chain RunnableLambda',
+          attributes: { 'langchain.retry.attempt': 1, 'error.type': 'rate_limit', 'http.response.status_code': 429 },
+        },
+        { name: 'chain RunnableLambda', attributes: { 'langchain.retry.attempt': 2 } },
+      ],
+    });
+    const retryRun = spans.find((span) => span.attributes['langchain.retry.attempts'] === 2)!;
+    const attempts = retryRun.events.filter((event) => event.name === 'langchain.retry.attempt');
+    assert.equal(attempts.length, 2);
+    assert.equal(attempts[0].attributes?.['error.type'], 'rate_limit');
+    assert.deepEqual(attempts[0].attributes?.['http.response.header.retry-after'], ['1']);
+    assert.equal(typeof attempts[1].attributes?.['langchain.retry.backoff_ms'], 'number');
+  });
+
+  it('records which fallback served the run', async () => {
+    const primary = new FakeChatModel({ model: 'primary', error: httpError('Request timed out', 408) });
+    const backup = new FakeChatModel({ model: 'backup' });
+    await primary.withFallbacks([backup]).invoke('hi', { callbacks: harness.callbacks });
+
+    const spans = harness.getFinishedSpans();
+    expectSpanTree(spans, {
+      name: 'chain RunnableWithFallbacks',
+      attributes: { 'langchain.fallback.index': 1, 'langchain.fallback.model': 'backup' },
+      children: [
+        { name: 'chat primary', attributes: { 'langchain.fallback.index': 0, 'error.type': 'timeout' } },
+        { name: 'chat backup', attributes: { 'langchain.fallback.index': 1 } },
+      ],
+    });
+    assert.equal(getSpanAttributes(spans, 'chat primary')?.['http.response.status_code'], 408);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { RunnableLambda } from '@langchain/core/runnables';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import type { LangChainInstrumentationConfig } from '../config.js';
+import { RunFilter } from '../filtering.js';
+import { ContentAwareSamplingProcessor } from '../sampling.js';
+import { FakeChatModel, LangChainTestHarness, expectSpanTree } from '../testing.js';
+
+// A named lambda around an LCEL pipeline, so the pipeline runs are not top-level
+const pipeline = (tags: string[] = []) => {
+  const chain = new FakeChatModel().pipe(new StringOutputParser());
+  return RunnableLambda.from(async (question: string, config) => chain.invoke(question, { ...config, tags }))
+    .withConfig({ runName: 'answer' });
+};
+
+describe('run filtering', () => {
+  const harnesses: LangChainTestHarness[] = [];
+  const createHarness = (config: LangChainInstrumentationConfig) => {
+    const harness = new LangChainTestHarness(config);
+    harnesses.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    await Promise.all(harnesses.map((harness) => harness.shutdown()));
+    harnesses.length = 0;
+  });
+
+  it('traces every run by default', async () => {
+    const harness = createHarness({});
+    await pipeline().invoke('hi', { callbacks: harness.callbacks });
+
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'chain answer',
+      children: [
+        {
+          name: 'chain RunnableSequence',
+          children: [{ name: 'chat fake-chat-model' }, { name: 'chain StrOutputParser' }],
+        },
+      ],
+    });
+  });
+
+  it('skips internal runnables and attaches their children to the nearest traced ancestor', async () => {
+    const harness = createHarness({ skipInternalRunnables: true });
+    await pipeline().invoke('hi', { callbacks: harness.callbacks });
+
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'chain answer',
+      children: [{ name: 'chat fake-chat-model' }],
+    });
+    assert.equal(harness.getFinishedSpans().length, 2);
+  });
+
+  it('keeps top-level internal runnables so one invocation stays one trace', async () => {
+    const harness = createHarness({ skipInternalRunnables: true });
+    await new FakeChatModel().pipe(new StringOutputParser()).invoke('hi', { callbacks: harness.callbacks });
+
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'chain RunnableSequence',
+      children: [{ name: 'chat fake-chat-model' }],
+    });
+  });
+
+  it('includes and excludes runs by name, tag and run type', async () => {
+    const excluding = createHarness({ excludeRuns: [{ tag: 'noisy' }, { name: /Parser$/ }] });
+    await pipeline(['noisy']).invoke('hi', { callbacks: excluding.callbacks });
+    expectSpanTree(excluding.getFinishedSpans(), { name: 'chain answer' });
+    assert.equal(excluding.getFinishedSpans().length, 1);
+
+    const including = createHarness({ includeRuns: [{ runType: 'llm' }] });
+    await pipeline().invoke('hi', { callbacks: including.callbacks });
+    expectSpanTree(including.getFinishedSpans(), { name: 'chat fake-chat-model' });
+    assert.equal(including.getFinishedSpans().length, 1);
+  });
+
+  it('reads the detail level of a run from its metadata', async () => {
+    const harness = createHarness({});
+    await pipeline().invoke('hi', { callbacks: harness.callbacks, metadata: { otel_detail_level: 'minimal' } });
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'chain answer',
+      children: [{ name: 'chat fake-chat-model' }],
+    });
+
+    harness.reset();
+    await pipeline().invoke('hi', { callbacks: harness.callbacks, metadata: { otel_detail_level: 'none' } });
+    assert.equal(harness.getFinishedSpans().length, 0);
+  });
+
+  it('keeps internal runnables at the full detail level', async () => {
+    const harness = createHarness({ skipInternalRunnables: true, detailLevel: 'full' });
+    await pipeline().invoke('hi', { callbacks: harness.callbacks });
+
+    assert.equal(harness.getSpansByName('chain RunnableSequence').length, 1);
+    assert.equal(harness.getSpansByName('chain StrOutputParser').length, 1);
+  });
+
+  it('ignores unknown detail levels in metadata', () => {
+    const filter = new RunFilter({ detailLevel: 'minimal' });
+    assert.equal(filter.detailLevelOf({ otel_detail_level: 'verbose' }), 'minimal');
+    assert.equal(filter.detailLevelOf({ otel_detail_level: 'full' }), 'full');
+  });
+});
+
+describe('content-aware sampling', () => {
+  let harness: LangChainTestHarness;
+  let exporter: InMemorySpanExporter;
+  let tracerProvider: BasicTracerProvider;
+
+  const sample = (options: ConstructorParameters<typeof ContentAwareSamplingProcessor>[1]) => {
+    harness = new LangChainTestHarness();
+    exporter = new InMemorySpanExporter();
+    tracerProvider = new BasicTracerProvider({
+      spanProcessors: [new ContentAwareSamplingProcessor(new SimpleSpanProcessor(exporter), options)],
+    });
+    harness.instrumentation.setTracerProvider(tracerProvider);
+  };
+
+  afterEach(async () => {
+    await tracerProvider.shutdown();
+    await harness.shutdown();
+  });
+
+  it('keeps whole traces with errors and drops the rest by ratio', async () => {
+    sample({ ratio: 0 });
+    await pipeline().invoke('hi', { callbacks: harness.callbacks });
+    assert.equal(exporter.getFinishedSpans().length, 0);
+
+    const failing = new FakeChatModel({ error: new Error('boom') }).pipe(new StringOutputParser());
+    const wrapper = RunnableLambda.from(async (question: string, config) => failing.invoke(question, config));
+    await assert.rejects(wrapper.invoke('hi', { callbacks: harness.callbacks }));
+    expectSpanTree(exporter.getFinishedSpans(), {
+      name: 'chain RunnableLambda',
+      children: [{ name: 'chain RunnableSequence', children: [{ name: 'chat fake-chat-model' }] }],
+    });
+  });
+
+  it('keeps traces the keep callback selects, and all traces at ratio 1', async () => {
+    sample({ ratio: 0, keepErrors: false, keep: (spans) => spans.some((span) => span.name.startsWith('chat ')) });
+    await pipeline().invoke('hi', { callbacks: harness.callbacks });
+    assert.equal(exporter.getFinishedSpans().length, 4);
+
+    await tracerProvider.shutdown();
+    await harness.shutdown();
+    sample({});
+    await new StringOutputParser().invoke('hi', { callbacks: harness.callbacks });
+    assert.equal(exporter.getFinishedSpans().length, 1);
+  });
+});
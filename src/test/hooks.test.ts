@@ -0,0 +1,96 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import type { LangChainInstrumentationConfig } from '../config.js';
+import type { RunInfo } from '../hooks.js';
+import { InternalErrorTypeValues, Metric_Names } from '../metrics.js';
+import { FakeChatModel, FakeTool, LangChainTestHarness, getSpanAttributes } from '../testing.js';
+
+describe('span hooks', () => {
+  const harnesses: LangChainTestHarness[] = [];
+  const createHarness = (config: LangChainInstrumentationConfig) => {
+    const harness = new LangChainTestHarness(config);
+    harnesses.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    await Promise.all(harnesses.map((harness) => harness.shutdown()));
+    harnesses.length = 0;
+  });
+
+  it('passes the run to onSpanStart and onSpanEnd and keeps the attributes they set', async () => {
+    const started: RunInfo[] = [];
+    const outputs: unknown[] = [];
+    const harness = createHarness({
+      onSpanStart: (span, run) => {
+        started.push(run);
+        span.setAttribute('app.tenant', String(run.metadata?.tenant));
+      },
+      onSpanEnd: (span, run, output) => {
+        outputs.push(output);
+        span.setAttribute('app.run_type', run.runType);
+      },
+    });
+    await new FakeChatModel({ responses: ['hello'] }).pipe(new StringOutputParser())
+      .invoke('hi', { callbacks: harness.callbacks, tags: ['beta'], metadata: { tenant: 'acme' } });
+
+    assert.deepEqual(started.map((run) => run.runType), ['chain', 'llm', 'chain']);
+    assert.equal(started[0].name, 'RunnableSequence');
+    assert.equal(started[1].parentRunId, started[0].runId);
+    assert.deepEqual(started[0].tags, ['beta']);
+    assert.deepEqual(started[0].inputs, { input: 'hi' });
+    assert.deepEqual(outputs.at(-1), { output: 'hello' });
+
+    const chat = getSpanAttributes(harness.getFinishedSpans(), 'chat fake-chat-model');
+    assert.equal(chat?.['app.tenant'], 'acme');
+    assert.equal(chat?.['app.run_type'], 'llm');
+  });
+
+  it('calls onError before onSpanEnd when a run fails', async () => {
+    const calls: string[] = [];
+    const harness = createHarness({
+      onError: (span, run, error) => {
+        calls.push(`error ${run.name} ${(error as Error).message}`);
+        span.setAttribute('app.failed', true);
+      },
+      onSpanEnd: (_span, run, output) => {
+        calls.push(`end ${run.name} ${output}`);
+      },
+    });
+    const tool = new FakeTool({ name: 'broken', error: new Error('boom') });
+    await assert.rejects(tool.invoke({ input: 'x' }, { callbacks: harness.callbacks }));
+
+    assert.deepEqual(calls, ['error broken boom', 'end broken undefined']);
+    const [span] = harness.getSpansByName('execute_tool broken');
+    assert.equal(span.attributes['app.failed'], true);
+    assert.equal(span.status.code, SpanStatusCode.ERROR);
+  });
+
+  it('contains failing hooks and reports them as internal errors', async () => {
+    const harness = createHarness({
+      onSpanStart: () => {
+        throw new Error('start hook bug');
+      },
+      onSpanEnd: async () => {
+        throw new Error('async end hook bug');
+      },
+    });
+    const result = await new FakeChatModel({ responses: ['fine'] }).pipe(new StringOutputParser())
+      .invoke('hi', { callbacks: harness.callbacks });
+    // Rejections of async hooks are reported once they settle
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(result, 'fine');
+    const spans = harness.getFinishedSpans();
+    assert.equal(spans.length, 3);
+    assert.ok(spans.every((span) => span.status.code !== SpanStatusCode.ERROR));
+
+    const metric = await harness.getMetric(Metric_Names.INSTRUMENTATION_INTERNAL_ERRORS);
+    const point = metric?.dataPoints.find(
+      (dataPoint) => dataPoint.attributes['error.type'] === InternalErrorTypeValues.HOOK_ERROR
+    );
+    assert.equal(point?.value, 6);
+  });
+});
@@ -0,0 +1,80 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { isWrapped } from '@opentelemetry/instrumentation';
+import * as callbacks from '@langchain/core/callbacks/manager';
+import * as runnables from '@langchain/core/runnables';
+import { RunnableLambda } from '@langchain/core/runnables';
+import { AsyncLocalStorageProviderSingleton } from '@langchain/core/singletons';
+import type { RunInfo } from '../hooks.js';
+import { FakeChatModel, LangChainTestHarness, expectSpanTree, getSpanAttributes } from '../testing.js';
+
+describe('handler injection', () => {
+  let harness: LangChainTestHarness;
+  const startedRuns: RunInfo[] = [];
+
+  before(() => {
+    // What the langchain package does on import, so nested calls inherit the config of their run
+    AsyncLocalStorageProviderSingleton.initializeGlobalInstance(new AsyncLocalStorage());
+    harness = new LangChainTestHarness({
+      associationTags: ['*'],
+      onSpanStart: (_span, run) => {
+        startedRuns.push(run);
+      },
+    });
+    harness.instrumentation.manuallyInstrument(callbacks, runnables);
+  });
+
+  afterEach(() => {
+    harness.reset();
+    startedRuns.length = 0;
+  });
+
+  after(() => harness.shutdown());
+
+  it('traces runs invoked without explicit callbacks', async () => {
+    const model = new FakeChatModel({ provider: 'openai' });
+    const lambda = RunnableLambda.from(async (question: string) => model.invoke(question));
+    await lambda.invoke('hi');
+
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'chain RunnableLambda',
+      children: [{ name: 'chat fake-chat-model' }],
+    });
+  });
+
+  it('keeps the tags and metadata of runs invoked without explicit callbacks', async () => {
+    const model = new FakeChatModel({ provider: 'openai' });
+    const lambda = RunnableLambda.from(async (question: string) => model.invoke(question));
+    await lambda.invoke('hi', { tags: ['beta'], metadata: { session_id: 'session-1', user_id: 'user-1' } });
+
+    const spans = harness.getFinishedSpans();
+    for (const name of ['chain RunnableLambda', 'chat fake-chat-model']) {
+      const attributes = getSpanAttributes(spans, name);
+      assert.equal(attributes?.['session.id'], 'session-1', name);
+      assert.equal(attributes?.['user.id'], 'user-1', name);
+      assert.deepEqual(attributes?.['langchain.tags'], ['beta'], name);
+    }
+    assert.equal(getSpanAttributes(spans, 'chat fake-chat-model')?.['gen_ai.system'], 'openai');
+    assert.equal(startedRuns[0].metadata?.session_id, 'session-1');
+  });
+
+  it('adds the handler once when it is also passed explicitly', async () => {
+    await new FakeChatModel().invoke('hi', { callbacks: harness.callbacks });
+
+    assert.equal(harness.getFinishedSpans().length, 1);
+  });
+
+  it('patches idempotently and restores the originals on disable', () => {
+    harness.instrumentation.enable();
+    harness.instrumentation.manuallyInstrument(callbacks, runnables);
+    const configure = callbacks.CallbackManager._configureSync as any;
+    assert.equal(isWrapped(configure), true);
+    assert.equal(isWrapped(configure.__original), false);
+
+    harness.instrumentation.disable();
+    assert.equal(isWrapped(callbacks.CallbackManager._configureSync), false);
+    harness.instrumentation.enable();
+    assert.equal(isWrapped(callbacks.CallbackManager._configureSync), true);
+  });
+});
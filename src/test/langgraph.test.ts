@@ -0,0 +1,120 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { Serialized } from '@langchain/core/load/serializable';
+import { getEdgeDestinations, getLangGraphNodeInfo, isGraphInterrupt } from '../langgraph.js';
+import { LangChainTestHarness, expectSpanTree } from '../testing.js';
+
+const GRAPH: Serialized = { lc: 1, type: 'not_implemented', id: ['langgraph', 'pregel', 'CompiledStateGraph'] };
+const NODE: Serialized = { lc: 1, type: 'not_implemented', id: ['langgraph', 'utils', 'RunnableCallable'] };
+
+function interrupt(value: unknown): Error {
+  return Object.assign(new Error('Interrupted'), { name: 'GraphInterrupt', interrupts: [{ value }] });
+}
+
+function nodeMetadata(node: string, step: number, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    thread_id: 'thread-1',
+    langgraph_node: node,
+    langgraph_step: step,
+    langgraph_triggers: [`branch:to:${node}`],
+    langgraph_checkpoint_ns: `${node}:${step}`,
+    ...extra,
+  };
+}
+
+describe('LangGraph helpers', () => {
+  it('reads node info from run metadata', () => {
+    assert.deepEqual(getLangGraphNodeInfo(nodeMetadata('agent', 1, { __pregel_resuming: true })), {
+      node: 'agent',
+      step: 1,
+      triggers: ['branch:to:agent'],
+      checkpointNs: 'agent:1',
+      resuming: true,
+    });
+    assert.equal(getLangGraphNodeInfo({ thread_id: 'thread-1' }), undefined);
+  });
+
+  it('reads edge destinations and recognizes interrupts', () => {
+    assert.deepEqual(getEdgeDestinations({ output: ['tools', { node: 'review' }] }), ['tools', 'review']);
+    assert.deepEqual(getEdgeDestinations('__end__'), ['__end__']);
+    assert.equal(isGraphInterrupt(interrupt('approve?')), true);
+    assert.equal(isGraphInterrupt(new Error('boom')), false);
+  });
+});
+
+// Drives the callbacks a compiled graph reports, @langchain/langgraph is not a dependency
+describe('LangGraph runs', () => {
+  let harness: LangChainTestHarness;
+
+  before(() => {
+    harness = new LangChainTestHarness();
+  });
+
+  afterEach(() => harness.reset());
+
+  after(() => harness.shutdown());
+
+  it('traces graphs as agents with their node steps and conditional edges', async () => {
+    const handler = harness.handler;
+    await handler.handleChainStart(GRAPH, { messages: [] }, 'graph', undefined, [], { thread_id: 'thread-1' },
+      undefined, 'support');
+    await handler.handleChainStart(NODE, {}, 'agent', 'graph', [], nodeMetadata('agent', 1), undefined, 'agent');
+    await handler.handleChainStart(NODE, {}, 'edge', 'agent', [], nodeMetadata('agent', 1), undefined, 'Branch<agent>');
+    await handler.handleChainEnd({ output: 'tools' }, 'edge');
+    await handler.handleChainEnd({}, 'agent');
+    await handler.handleChainStart(NODE, {}, 'tools', 'graph', [], nodeMetadata('tools', 2), undefined, 'tools');
+    await handler.handleChainEnd({}, 'tools');
+    await handler.handleChainEnd({ messages: [] }, 'graph');
+
+    const spans = harness.getFinishedSpans();
+    expectSpanTree(spans, {
+      name: 'invoke_agent support',
+      attributes: { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'support', 'langgraph.thread_id': 'thread-1' },
+      children: [
+        {
+          name: 'chain agent',
+          attributes: {
+            'langgraph.node': 'agent',
+            'langgraph.step': 1,
+            'langgraph.triggers': ['branch:to:agent'],
+            'langgraph.checkpoint_ns': 'agent:1',
+          },
+        },
+        { name: 'chain tools', attributes: { 'langgraph.node': 'tools', 'langgraph.step': 2 } },
+      ],
+    });
+    const [agent] = harness.getSpansByName('chain agent');
+    const [edge] = agent.events.filter((event) => event.name === 'langgraph.edge.conditional');
+    assert.equal(edge.attributes?.['langgraph.edge.source'], 'agent');
+    assert.deepEqual(edge.attributes?.['langgraph.edge.destinations'], ['tools']);
+  });
+
+  it('ends interrupted runs without an error and links the resumed run to them', async () => {
+    const handler = harness.handler;
+    await handler.handleChainStart(GRAPH, {}, 'graph', undefined, [], { thread_id: 'thread-1' }, undefined, 'support');
+    await handler.handleChainStart(NODE, {}, 'review', 'graph', [], nodeMetadata('review', 1), undefined, 'review');
+    await handler.handleChainError(interrupt('approve?'), 'review');
+    await handler.handleChainEnd({ __interrupt__: [{ value: 'approve?' }] }, 'graph');
+
+    const [interruptedGraph] = harness.getSpansByName('invoke_agent support');
+    const [review] = harness.getSpansByName('chain review');
+    assert.equal(review.status.code, SpanStatusCode.UNSET);
+    assert.equal(review.attributes['langgraph.interrupted'], true);
+    assert.equal(interruptedGraph.attributes['langgraph.interrupted'], true);
+    const [event] = review.events.filter((e) => e.name === 'langgraph.interrupt');
+    assert.equal(event.attributes?.['langgraph.node'], 'review');
+    // The interrupt value is message content
+    assert.equal(event.attributes?.['langgraph.interrupt.value'], undefined);
+
+    harness.reset();
+    await handler.handleChainStart(GRAPH, {}, 'resumed', undefined, [], { thread_id: 'thread-1' }, undefined, 'support');
+    await handler.handleChainEnd({}, 'resumed');
+
+    const [resumed] = harness.getSpansByName('invoke_agent support');
+    assert.equal(resumed.attributes['langgraph.resumed'], true);
+    assert.equal(resumed.links[0].context.spanId, interruptedGraph.spanContext().spanId);
+    assert.equal(resumed.links[0].attributes?.['langgraph.link.type'], 'resume');
+    assert.equal(resumed.links[0].attributes?.['langgraph.thread_id'], 'thread-1');
+  });
+});
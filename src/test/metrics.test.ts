@@ -0,0 +1,82 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DataPoint, Histogram, MetricData } from '@opentelemetry/sdk-metrics';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { Metric_Names } from '../metrics.js';
+import { FakeChatModel, FakeTool, LangChainTestHarness, getSpanAttributes } from '../testing.js';
+
+function dataPoints(metric: MetricData | undefined, attributes: Record<string, unknown>): DataPoint<unknown>[] {
+  const points: DataPoint<unknown>[] = metric?.dataPoints ?? [];
+  return points.filter((point) =>
+    Object.entries(attributes).every(([key, value]) => point.attributes[key] === value)
+  );
+}
+
+describe('metrics', () => {
+  let harness: LangChainTestHarness;
+
+  before(() => {
+    harness = new LangChainTestHarness();
+  });
+
+  afterEach(() => harness.reset());
+
+  after(() => harness.shutdown());
+
+  it('records input and output token usage of model calls', async () => {
+    const model = new FakeChatModel({ model: 'gpt-4o', provider: 'openai', usage: { inputTokens: 12, outputTokens: 3 } });
+    await model.invoke('hi', { callbacks: harness.callbacks });
+
+    const metric = await harness.getMetric(Metric_Names.GEN_AI_CLIENT_TOKEN_USAGE);
+    const [input] = dataPoints(metric, { 'gen_ai.token.type': 'input', 'gen_ai.request.model': 'gpt-4o' });
+    const [output] = dataPoints(metric, { 'gen_ai.token.type': 'output', 'gen_ai.request.model': 'gpt-4o' });
+    assert.equal((input.value as Histogram).sum, 12);
+    assert.equal((output.value as Histogram).sum, 3);
+    assert.equal(input.attributes['gen_ai.system'], 'openai');
+  });
+
+  it('records operation, tool and chain durations', async () => {
+    await new FakeChatModel({ model: 'duration-model' }).pipe(new StringOutputParser())
+      .invoke('hi', { callbacks: harness.callbacks });
+    await new FakeTool({ name: 'timed_tool' }).invoke({ input: 'x' }, { callbacks: harness.callbacks });
+
+    const operation = await harness.getMetric(Metric_Names.GEN_AI_CLIENT_OPERATION_DURATION);
+    assert.equal(dataPoints(operation, { 'gen_ai.request.model': 'duration-model' }).length, 1);
+    const tool = await harness.getMetric(Metric_Names.GEN_AI_TOOL_EXECUTION_DURATION);
+    assert.ok((tool?.dataPoints.length ?? 0) > 0);
+    const chain = await harness.getMetric(Metric_Names.GEN_AI_CHAIN_DURATION);
+    assert.ok((chain?.dataPoints.length ?? 0) > 0);
+  });
+
+  it('estimates the cost of priced models and adds it up on the root run', async () => {
+    const model = new FakeChatModel({ model: 'gpt-4o-2024-08-06', usage: { inputTokens: 1000, outputTokens: 100 } });
+    await model.pipe(new StringOutputParser()).invoke('hi', { callbacks: harness.callbacks });
+
+    const spans = harness.getFinishedSpans();
+    const expected = (1000 * 2.5 + 100 * 10) / 1_000_000;
+    assert.equal(getSpanAttributes(spans, 'chat gpt-4o-2024-08-06')?.['gen_ai.usage.cost'], expected);
+    assert.equal(getSpanAttributes(spans, 'chain RunnableSequence')?.['gen_ai.usage.total_cost'], expected);
+
+    const cost = await harness.getMetric(Metric_Names.GEN_AI_CLIENT_COST);
+    const [point] = dataPoints(cost, { 'gen_ai.request.model': 'gpt-4o-2024-08-06' });
+    assert.equal(point.value, expected);
+  });
+
+  it('counts every call to a model without a price', async () => {
+    // Metrics are cumulative, earlier tests may have called unpriced models too
+    const unpricedCalls = async () => {
+      const errors = await harness.getMetric(Metric_Names.INSTRUMENTATION_INTERNAL_ERRORS);
+      const [point] = dataPoints(errors, { 'error.type': 'unknown_model_price' });
+      return (point?.value as number | undefined) ?? 0;
+    };
+    const previous = await unpricedCalls();
+    const model = new FakeChatModel({ model: 'unpriced-model' });
+    for (let i = 0; i < 3; i++) {
+      await model.invoke('hi', { callbacks: harness.callbacks });
+    }
+
+    const spans = harness.getFinishedSpans();
+    assert.equal(getSpanAttributes(spans, 'chat unpriced-model')?.['gen_ai.usage.cost'], undefined);
+    assert.equal(await unpricedCalls(), previous + 3);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Serialized } from '@langchain/core/load/serializable';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import type { LangChainInstrumentationConfig } from '../config.js';
+import { getPromptTemplateInfo, isPromptTemplateRun, promptContentHash } from '../prompts.js';
+import { FakeChatModel, LangChainTestHarness, getSpanAttributes } from '../testing.js';
+
+const HUB_METADATA = { lc_hub_owner: 'acme', lc_hub_repo: 'support-answer', lc_hub_commit_hash: 'c0ffee' };
+
+const template = (text: string) => ChatPromptTemplate.fromMessages([['system', text], ['human', '{question}']]);
+
+describe('prompt identity', () => {
+  it('hashes what a template renders, not its metadata', () => {
+    const serialized = template('Be brief').toJSON() as Serialized;
+    const hash = promptContentHash(serialized);
+    assert.match(hash ?? '', /^[0-9a-f]{16}$/);
+
+    const withMetadata = { ...serialized, kwargs: { ...(serialized as any).kwargs, metadata: { team: 'support' } } };
+    assert.equal(promptContentHash(withMetadata), hash);
+    assert.notEqual(promptContentHash(template('Be thorough').toJSON() as Serialized), hash);
+    assert.equal(isPromptTemplateRun(serialized), true);
+    assert.equal(isPromptTemplateRun(undefined, 'prompt'), true);
+  });
+
+  it('uses the hub reference and commit of hub prompts', () => {
+    const serialized = template('Be brief').toJSON() as Serialized;
+    assert.deepEqual(getPromptTemplateInfo(serialized, 'ChatPromptTemplate', HUB_METADATA), {
+      name: 'ChatPromptTemplate',
+      id: 'acme/support-answer',
+      version: 'c0ffee',
+      hubRef: 'acme/support-answer',
+      hubCommit: 'c0ffee',
+      hash: promptContentHash(serialized),
+    });
+    const local = getPromptTemplateInfo(serialized, 'answer');
+    assert.equal(local.id, 'answer');
+    assert.equal(local.version, local.hash);
+  });
+});
+
+describe('prompt spans', () => {
+  const harnesses: LangChainTestHarness[] = [];
+  const createHarness = (config: LangChainInstrumentationConfig) => {
+    const harness = new LangChainTestHarness(config);
+    harnesses.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    await Promise.all(harnesses.map((harness) => harness.shutdown()));
+    harnesses.length = 0;
+  });
+
+  it('records the prompt identity on the prompt run and the model call it feeds', async () => {
+    const harness = createHarness({});
+    const prompt = template('Be brief');
+    await prompt.pipe(new FakeChatModel()).invoke({ question: 'hi' }, { callbacks: harness.callbacks });
+
+    const spans = harness.getFinishedSpans();
+    const hash = promptContentHash(prompt.toJSON() as Serialized);
+    const promptAttributes = getSpanAttributes(spans, 'chain ChatPromptTemplate');
+    assert.equal(promptAttributes?.['langchain.prompt.name'], 'ChatPromptTemplate');
+    assert.equal(promptAttributes?.['langchain.prompt.id'], 'ChatPromptTemplate');
+    assert.equal(promptAttributes?.['langchain.prompt.version'], hash);
+    assert.equal(promptAttributes?.['langchain.prompt.hash'], hash);
+    assert.equal(promptAttributes?.['langchain.prompt.variables'], undefined);
+
+    const chat = getSpanAttributes(spans, 'chat fake-chat-model');
+    assert.equal(chat?.['langchain.prompt.id'], 'ChatPromptTemplate');
+    assert.equal(chat?.['langchain.prompt.version'], hash);
+  });
+
+  it('identifies hub prompts by their reference and commit', async () => {
+    const harness = createHarness({});
+    const prompt = template('Be brief').withConfig({ metadata: HUB_METADATA });
+    await prompt.pipe(new FakeChatModel()).invoke({ question: 'hi' }, { callbacks: harness.callbacks });
+
+    const spans = harness.getFinishedSpans();
+    const promptAttributes = getSpanAttributes(spans, 'chain ChatPromptTemplate');
+    assert.equal(promptAttributes?.['langchain.prompt.hub.ref'], 'acme/support-answer');
+    assert.equal(promptAttributes?.['langchain.prompt.hub.commit'], 'c0ffee');
+    const chat = getSpanAttributes(spans, 'chat fake-chat-model');
+    assert.equal(chat?.['langchain.prompt.id'], 'acme/support-answer');
+    assert.equal(chat?.['langchain.prompt.version'], 'c0ffee');
+  });
+
+  it('records redacted prompt variables when asked to', async () => {
+    const harness = createHarness({ capturePromptVariables: true, redaction: { detectors: ['email'] } });
+    await template('Be brief').pipe(new FakeChatModel())
+      .invoke({ question: 'mail ada@example.com' }, { callbacks: harness.callbacks });
+
+    const promptAttributes = getSpanAttributes(harness.getFinishedSpans(), 'chain ChatPromptTemplate');
+    assert.equal(promptAttributes?.['langchain.prompt.variables'], '{"question":"mail [REDACTED_EMAIL]"}');
+  });
+});
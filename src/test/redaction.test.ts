@@ -0,0 +1,71 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpanStatusCode } from '@opentelemetry/api';
+import * as tools from '@langchain/core/tools';
+import { ToolMessage } from '@langchain/core/messages';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { Sanitizer } from '../redaction.js';
+import { FakeChatModel, LangChainTestHarness, getSpanAttributes } from '../testing.js';
+
+describe('Sanitizer', () => {
+  it('runs the built-in detectors', () => {
+    const sanitizer = new Sanitizer({ detectors: true });
+    assert.equal(
+      sanitizer.sanitize('mail ada@example.com with key sk-abcdefghijklmnopqrstuvwxyz'),
+      'mail [REDACTED_EMAIL] with key [REDACTED_API_KEY]'
+    );
+  });
+
+  it('applies custom redactors and masks JSON keys', () => {
+    const sanitizer = new Sanitizer({
+      redactors: [/secret-\d+/, { pattern: /ssn:\S+/, replacement: 'ssn:***' }],
+      maskedKeys: ['password'],
+    });
+    assert.equal(sanitizer.sanitize('secret-42 ssn:123'), '[REDACTED] ssn:***');
+    assert.equal(sanitizer.sanitize('{"user":"ada","password":"hunter2"}'), '{"user":"ada","password":"[REDACTED]"}');
+  });
+
+  it('truncates per attribute', () => {
+    const sanitizer = new Sanitizer({ maxLength: 100, maxLengthByAttribute: { short: 4 }, truncationMarker: '~' });
+    assert.equal(sanitizer.sanitize('abcdefgh', 'short'), 'abcd~');
+    assert.equal(sanitizer.sanitize('abcdefgh', 'long'), 'abcdefgh');
+  });
+});
+
+describe('captured content', () => {
+  let harness: LangChainTestHarness;
+
+  before(() => {
+    harness = new LangChainTestHarness({ captureMessageContent: true, redaction: { detectors: ['email', 'api_key'] } });
+    harness.instrumentation.manuallyInstrument(tools);
+  });
+
+  afterEach(() => harness.reset());
+
+  after(() => harness.shutdown());
+
+  it('redacts prompts and completions', async () => {
+    const chain = ChatPromptTemplate.fromMessages([['human', 'Write to {address}']])
+      .pipe(new FakeChatModel({ responses: ['Sent to ada@example.com'] }));
+    await chain.invoke({ address: 'ada@example.com' }, { callbacks: harness.callbacks });
+
+    const attributes = getSpanAttributes(harness.getFinishedSpans(), 'chain RunnableSequence');
+    assert.match(String(attributes?.['gen_ai.prompt']), /\[REDACTED_EMAIL\]/);
+    assert.match(String(attributes?.['gen_ai.completion']), /Sent to \[REDACTED_EMAIL\]/);
+    for (const span of harness.getFinishedSpans()) {
+      assert.doesNotMatch(JSON.stringify(span.attributes), /ada@example\.com/);
+    }
+  });
+
+  it('redacts the status message of tools that return an error', async () => {
+    const failing = tools.tool(
+      async () => new ToolMessage({ content: 'bad key sk-abcdefghijklmnopqrstuvwxyz', tool_call_id: 'call-1', status: 'error' }),
+      { name: 'failing', description: 'Always fails', schema: { type: 'object', properties: {} } }
+    );
+    await failing.invoke({}, { callbacks: harness.callbacks });
+
+    const [span] = harness.getSpansByName('execute_tool failing');
+    assert.equal(span.status.code, SpanStatusCode.ERROR);
+    assert.equal(span.status.message, 'bad key [REDACTED_API_KEY]');
+  });
+});
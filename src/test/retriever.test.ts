@@ -0,0 +1,49 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Document } from '@langchain/core/documents';
+import { FakeRetriever, LangChainTestHarness, getSpanAttributes } from '../testing.js';
+
+describe('retriever spans', () => {
+  const harnesses: LangChainTestHarness[] = [];
+  const createHarness = (config: ConstructorParameters<typeof LangChainTestHarness>[0]) => {
+    const harness = new LangChainTestHarness(config);
+    harnesses.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    await Promise.all(harnesses.map((harness) => harness.shutdown()));
+    harnesses.length = 0;
+  });
+
+  it('records the document count but not the query by default', async () => {
+    const harness = createHarness({});
+    await new FakeRetriever({ documents: ['a', 'b'] }).invoke('where is ada@example.com', { callbacks: harness.callbacks });
+
+    const attributes = getSpanAttributes(harness.getFinishedSpans(), 'retrieve FakeRetriever');
+    assert.equal(attributes?.['gen_ai.retrieval.documents.count'], 2);
+    assert.equal(attributes?.['gen_ai.retrieval.query'], undefined);
+  });
+
+  it('records the redacted query when content is captured', async () => {
+    const harness = createHarness({ captureMessageContent: true, redaction: { detectors: ['email'] } });
+    await new FakeRetriever().invoke('where is ada@example.com', { callbacks: harness.callbacks });
+
+    const attributes = getSpanAttributes(harness.getFinishedSpans(), 'retrieve FakeRetriever');
+    assert.equal(attributes?.['gen_ai.retrieval.query'], 'where is [REDACTED_EMAIL]');
+  });
+
+  it('records document ids, sources and scores when asked to', async () => {
+    const harness = createHarness({ captureRetrievalDocuments: true });
+    const documents = [
+      new Document({ pageContent: 'one', id: 'doc-1', metadata: { source: 'a.md', score: 0.9 } }),
+      new Document({ pageContent: 'two', id: 'doc-2', metadata: { source: 'b.md', score: 0.5 } }),
+    ];
+    await new FakeRetriever({ documents }).invoke('q', { callbacks: harness.callbacks });
+
+    const attributes = getSpanAttributes(harness.getFinishedSpans(), 'retrieve FakeRetriever');
+    assert.deepEqual(attributes?.['gen_ai.retrieval.document.ids'], ['doc-1', 'doc-2']);
+    assert.deepEqual(attributes?.['gen_ai.retrieval.document.sources'], ['a.md', 'b.md']);
+    assert.deepEqual(attributes?.['gen_ai.retrieval.document.scores'], [0.9, 0.5]);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { ABORT_REASON_ATTRIBUTE, RunAbortReason, RunRegistry, SpanHolder } from '../run-registry.js';
+
+const exporter = new InMemorySpanExporter();
+const tracer = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }).getTracer('test');
+
+function startRun(registry: RunRegistry, runId: string, parentRunId?: string, startTime?: number): SpanHolder {
+  const spanHolder = new SpanHolder(tracer.startSpan(runId));
+  spanHolder.parentRunId = parentRunId;
+  if (startTime !== undefined) {
+    spanHolder.startTime = startTime;
+  }
+  registry.set(runId, spanHolder);
+  if (parentRunId) {
+    registry.get(parentRunId)?.children.push(runId);
+  }
+  return spanHolder;
+}
+
+describe('RunRegistry', () => {
+  afterEach(() => exporter.reset());
+
+  it('aborts a run together with its open children', () => {
+    const registry = new RunRegistry({ sweepIntervalMs: 0 });
+    startRun(registry, 'parent');
+    startRun(registry, 'child', 'parent');
+
+    registry.abort('parent', RunAbortReason.EXPIRED);
+
+    assert.equal(registry.size, 0);
+    const spans = exporter.getFinishedSpans();
+    assert.deepEqual(spans.map((span) => span.name).sort(), ['child', 'parent']);
+    for (const span of spans) {
+      assert.equal(span.attributes[ABORT_REASON_ATTRIBUTE], RunAbortReason.EXPIRED);
+      assert.equal(span.status.code, SpanStatusCode.ERROR);
+    }
+  });
+
+  it('does not mark cancelled runs as errors', () => {
+    const registry = new RunRegistry({ sweepIntervalMs: 0 });
+    startRun(registry, 'run');
+
+    registry.abort('run', RunAbortReason.CANCELLED);
+
+    const [span] = exporter.getFinishedSpans();
+    assert.equal(span.attributes[ABORT_REASON_ATTRIBUTE], RunAbortReason.CANCELLED);
+    assert.equal(span.status.code, SpanStatusCode.UNSET);
+  });
+
+  it('releases the late end of an aborted run once', () => {
+    const registry = new RunRegistry({ sweepIntervalMs: 0 });
+    startRun(registry, 'run');
+    registry.abort('run', RunAbortReason.EXPIRED);
+
+    assert.equal(registry.release('run'), true);
+    assert.equal(registry.release('run'), false);
+  });
+
+  it('evicts the oldest runs beyond the maximum size', () => {
+    const registry = new RunRegistry({ maxSize: 2, sweepIntervalMs: 0 });
+    startRun(registry, 'first');
+    startRun(registry, 'second');
+    startRun(registry, 'third');
+
+    assert.deepEqual([...registry.keys()], ['second', 'third']);
+    assert.equal(exporter.getFinishedSpans()[0].attributes[ABORT_REASON_ATTRIBUTE], RunAbortReason.EVICTED);
+  });
+
+  it('sweeps runs older than the TTL', () => {
+    const registry = new RunRegistry({ ttlMs: 1000, sweepIntervalMs: 0 });
+    startRun(registry, 'old', undefined, 0);
+    startRun(registry, 'new', undefined, 5000);
+
+    registry.sweep(5500);
+
+    assert.deepEqual([...registry.keys()], ['new']);
+  });
+
+  it('resolves the parent of untraced runs to the nearest traced ancestor', () => {
+    const registry = new RunRegistry({ sweepIntervalMs: 0 });
+    startRun(registry, 'traced');
+    registry.skip('skipped', 'traced');
+    registry.skip('nested', 'skipped');
+
+    assert.equal(registry.resolveParent('nested'), 'traced');
+    assert.equal(registry.release('nested'), true);
+    assert.equal(registry.release('traced'), false);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RunnableLambda } from '@langchain/core/runnables';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import { Document } from '@langchain/core/documents';
+import type { LangChainInstrumentationConfig } from '../config.js';
+import { Serializer } from '../serialization.js';
+import { LangChainTestHarness } from '../testing.js';
+
+describe('Serializer', () => {
+  it('gives LangChain values a compact shape and sorts object keys', () => {
+    const serializer = new Serializer();
+    assert.deepEqual(serializer.toJSONValue({
+      b: new HumanMessage('hi'),
+      a: new Document({ pageContent: 'text', metadata: { source: 'kb' } }),
+      c: { tool: 'search', toolInput: 'q', log: '' },
+    }), {
+      a: { page_content: 'text', metadata: { source: 'kb' } },
+      b: { role: 'user', content: 'hi' },
+      c: { tool: 'search', tool_input: 'q', log: '' },
+    });
+    assert.equal(serializer.stringify({ z: 1, a: [true, null] }), '{"a":[true,null],"z":1}');
+    assert.equal(serializer.stringify('plain text'), 'plain text');
+  });
+
+  it('replaces values JSON cannot hold with placeholders', () => {
+    const serializer = new Serializer();
+    const cyclic: Record<string, unknown> = { name: 'node' };
+    cyclic.self = cyclic;
+    const shared = { id: 1 };
+    assert.deepEqual(serializer.toJSONValue({
+      cyclic,
+      siblings: [shared, shared],
+      bytes: new Uint8Array(3),
+      big: 10n,
+      nan: NaN,
+      fn: function handler() {},
+      date: new Date(0),
+      error: new TypeError('bad'),
+      missing: undefined,
+    }), {
+      big: '10',
+      bytes: '[Uint8Array 3 bytes]',
+      cyclic: { name: 'node', self: '[Circular]' },
+      date: '1970-01-01T00:00:00.000Z',
+      error: { name: 'TypeError', message: 'bad' },
+      fn: '[Function handler]',
+      nan: 'NaN',
+      siblings: [{ id: 1 }, { id: 1 }],
+    });
+  });
+
+  it('applies the depth, size and string length limits', () => {
+    const serializer = new Serializer({ maxDepth: 2, maxItems: 2, maxStringLength: 3 });
+    assert.deepEqual(serializer.toJSONValue({ a: { b: { c: 1 } } }), { a: { b: '[Object]' } });
+    assert.deepEqual(serializer.toJSONValue([1, 2, 3, 4]), [1, 2, '[2 more]']);
+    assert.deepEqual(serializer.toJSONValue({ a: 1, b: 2, c: 3 }), { a: 1, b: 2, __truncated__: '1 more keys' });
+    assert.equal(serializer.stringify('abcdef'), 'abc...[truncated]');
+  });
+
+  it('flattens values into dotted paths and converts attribute values', () => {
+    const serializer = new Serializer({ maxFlattenedKeys: 3 });
+    assert.deepEqual(serializer.flatten([new HumanMessage('hi'), new AIMessage('hello')]), {
+      '0.role': 'user',
+      '0.content': 'hi',
+      '1.role': 'assistant',
+    });
+    assert.deepEqual(serializer.flatten('text'), { '': 'text' });
+    assert.deepEqual(serializer.toAttributeValue(['a', { b: 1 }]), ['a', '{"b":1}']);
+    assert.equal(serializer.toAttributeValue({ b: 1 }), '{"b":1}');
+    assert.equal(serializer.toAttributeValue(null), undefined);
+  });
+});
+
+describe('content formats', () => {
+  const harnesses: LangChainTestHarness[] = [];
+  const createHarness = (config: LangChainInstrumentationConfig) => {
+    const harness = new LangChainTestHarness({ captureMessageContent: true, ...config });
+    harnesses.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    await Promise.all(harnesses.map((harness) => harness.shutdown()));
+    harnesses.length = 0;
+  });
+
+  const echo = RunnableLambda.from(async (input: { messages: HumanMessage[]; user: string }) => input.user);
+  const input = { user: 'ada@example.com', messages: [new HumanMessage('hi')] };
+
+  it('records captured payloads as one JSON attribute by default', async () => {
+    const harness = createHarness({});
+    await echo.invoke(input, { callbacks: harness.callbacks });
+
+    const [span] = harness.getSpansByName('chain RunnableLambda');
+    assert.equal(
+      span.attributes['gen_ai.prompt'],
+      '{"messages":[{"role":"user","content":"hi"}],"user":"ada@example.com"}'
+    );
+  });
+
+  it('records one attribute per leaf in the flattened format, after redaction', async () => {
+    const harness = createHarness({ contentFormat: 'flattened', redaction: { detectors: ['email'] } });
+    await echo.invoke(input, { callbacks: harness.callbacks });
+
+    const [span] = harness.getSpansByName('chain RunnableLambda');
+    assert.equal(span.attributes['gen_ai.prompt'], undefined);
+    assert.equal(span.attributes['gen_ai.prompt.messages.0.role'], 'user');
+    assert.equal(span.attributes['gen_ai.prompt.messages.0.content'], 'hi');
+    assert.equal(span.attributes['gen_ai.prompt.user'], '[REDACTED_EMAIL]');
+  });
+
+  it('applies the configured serialization limits', async () => {
+    const harness = createHarness({ serialization: { maxItems: 1 } });
+    await echo.invoke(input, { callbacks: harness.callbacks });
+
+    const [span] = harness.getSpansByName('chain RunnableLambda');
+    assert.equal(
+      span.attributes['gen_ai.prompt'],
+      '{"messages":[{"role":"user","__truncated__":"1 more keys"}],"__truncated__":"1 more keys"}'
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import * as callbacks from '@langchain/core/callbacks/manager';
+import * as runnables from '@langchain/core/runnables';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { RunnableLambda } from '@langchain/core/runnables';
+import {
+  FakeChatModel,
+  FakeRetriever,
+  FakeTool,
+  LangChainTestHarness,
+  expectSpanTree,
+  getSpanAttributes,
+} from '../testing.js';
+
+describe('span tree', () => {
+  let harness: LangChainTestHarness;
+
+  before(() => {
+    harness = new LangChainTestHarness();
+    harness.instrumentation.manuallyInstrument(callbacks, runnables);
+  });
+
+  afterEach(() => harness.reset());
+
+  after(() => harness.shutdown());
+
+  it('nests the steps of a sequence under it', async () => {
+    const chain = ChatPromptTemplate.fromMessages([['human', 'Hi {name}']])
+      .pipe(new FakeChatModel({ model: 'gpt-4o', provider: 'openai' }))
+      .pipe(new StringOutputParser());
+    await chain.invoke({ name: 'Ada' }, { callbacks: harness.callbacks });
+
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'chain RunnableSequence',
+      kind: SpanKind.INTERNAL,
+      children: [
+        { name: 'chain ChatPromptTemplate' },
+        {
+          name: 'chat gpt-4o',
+          kind: SpanKind.CLIENT,
+          attributes: {
+            'gen_ai.operation.name': 'chat',
+            'gen_ai.system': 'openai',
+            'gen_ai.request.model': 'gpt-4o',
+            'gen_ai.usage.input_tokens': 10,
+            'gen_ai.usage.output_tokens': 5,
+          },
+        },
+        { name: 'chain StrOutputParser' },
+      ],
+    });
+  });
+
+  it('parents spans started inside a runnable to its run', async () => {
+    const model = new FakeChatModel();
+    const retriever = new FakeRetriever({ documents: ['one', 'two'] });
+    const lambda = RunnableLambda.from(async (question: string) => {
+      const documents = await retriever.invoke(question);
+      return model.invoke(documents.map((document) => document.pageContent).join('\n'));
+    });
+    await lambda.invoke('question', { callbacks: harness.callbacks });
+
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'chain RunnableLambda',
+      children: [
+        { name: 'retrieve FakeRetriever', attributes: { 'gen_ai.retrieval.documents.count': 2 } },
+        { name: 'chat fake-chat-model' },
+      ],
+    });
+  });
+
+  it('marks failed tools as errors', async () => {
+    const tool = new FakeTool({ error: new Error('Request timed out') });
+    await assert.rejects(tool.invoke({ input: 'x' }, { callbacks: harness.callbacks }));
+
+    expectSpanTree(harness.getFinishedSpans(), {
+      name: 'execute_tool fake_tool',
+      status: SpanStatusCode.ERROR,
+      attributes: { 'gen_ai.tool.name': 'fake_tool', 'error.type': 'timeout' },
+    });
+  });
+
+  it('links tool spans to the tool call that requested them', async () => {
+    const tool = new FakeTool({ name: 'lookup' });
+    await tool.invoke(
+      { name: 'lookup', args: { input: 'x' }, id: 'call-1', type: 'tool_call' },
+      { callbacks: harness.callbacks }
+    );
+
+    const attributes = getSpanAttributes(harness.getFinishedSpans(), 'execute_tool lookup');
+    assert.equal(attributes?.['gen_ai.tool.call.id'], 'call-1');
+  });
+
+  it('reports the actual tree when the expectation does not match', async () => {
+    await new FakeChatModel().invoke('hi', { callbacks: harness.callbacks });
+
+    assert.throws(
+      () => expectSpanTree(harness.getFinishedSpans(), { name: 'chain RunnableSequence' }),
+      /Actual spans:\nchat fake-chat-model \(CLIENT\)/
+    );
+  });
+});
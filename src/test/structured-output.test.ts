@@ -0,0 +1,96 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { RunnableLambda } from '@langchain/core/runnables';
+import { dispatchCustomEvent } from '@langchain/core/callbacks/dispatch';
+import { JsonOutputParser, StringOutputParser } from '@langchain/core/output_parsers';
+import type { LangChainInstrumentationConfig } from '../config.js';
+import { FakeChatModel, LangChainTestHarness } from '../testing.js';
+
+const PERSON_SCHEMA = {
+  title: 'Person',
+  type: 'object',
+  properties: { name: { type: 'string' } },
+  required: ['name'],
+};
+
+describe('custom events', () => {
+  const harnesses: LangChainTestHarness[] = [];
+  const createHarness = (config: LangChainInstrumentationConfig) => {
+    const harness = new LangChainTestHarness(config);
+    harnesses.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    await Promise.all(harnesses.map((harness) => harness.shutdown()));
+    harnesses.length = 0;
+  });
+
+  const dispatching = RunnableLambda.from(async (input: number, config) => {
+    await dispatchCustomEvent('progress', { step: input, contact: 'ada@example.com' }, config);
+    return input;
+  });
+
+  it('records the event name without its payload by default', async () => {
+    const harness = createHarness({});
+    await dispatching.invoke(1, { callbacks: harness.callbacks });
+
+    const [span] = harness.getSpansByName('chain RunnableLambda');
+    const [event] = span.events.filter((e) => e.name === 'progress');
+    assert.ok(event);
+    assert.equal(event.attributes?.['langchain.custom_event.data'], undefined);
+  });
+
+  it('records the redacted payload when content is captured', async () => {
+    const harness = createHarness({ captureMessageContent: true, redaction: { detectors: ['email'] } });
+    await dispatching.invoke(1, { callbacks: harness.callbacks });
+
+    const [span] = harness.getSpansByName('chain RunnableLambda');
+    const [event] = span.events.filter((e) => e.name === 'progress');
+    assert.equal(event.attributes?.['langchain.custom_event.data'], '{"contact":"[REDACTED_EMAIL]","step":1}');
+  });
+});
+
+describe('structured output', () => {
+  let harness: LangChainTestHarness;
+
+  afterEach(() => harness.shutdown());
+
+  it('marks parsed withStructuredOutput results with their schema', async () => {
+    harness = new LangChainTestHarness();
+    const model = new FakeChatModel({
+      responses: [{ content: '', tool_calls: [{ id: 'call-1', name: 'Person', args: { name: 'Ada' } }] }],
+    });
+    const result = await model.withStructuredOutput(PERSON_SCHEMA, { name: 'Person' })
+      .invoke('who?', { callbacks: harness.callbacks });
+    assert.deepEqual(result, { name: 'Ada' });
+
+    const [pipeline] = harness.getSpansByName(/StructuredOutput$/);
+    assert.equal(pipeline.attributes['langchain.structured_output.parsed'], true);
+    assert.equal(pipeline.attributes['langchain.structured_output.schema'], 'Person');
+  });
+
+  it('links a failed parse to the generation it parsed', async () => {
+    harness = new LangChainTestHarness();
+    const model = new FakeChatModel({ model: 'json-model', responses: ['not json'] });
+    await assert.rejects(model.pipe(new JsonOutputParser()).invoke('hi', { callbacks: harness.callbacks }));
+
+    const [generation] = harness.getSpansByName('chat json-model');
+    const [parser] = harness.getSpansByName('chain JsonOutputParser');
+    assert.equal(parser.status.code, SpanStatusCode.ERROR);
+    assert.equal(parser.attributes['langchain.structured_output.parsed'], false);
+    assert.equal(parser.attributes['error.type'], 'output_parsing_failure');
+    assert.equal(parser.links[0].context.spanId, generation.spanContext().spanId);
+    assert.equal(parser.links[0].attributes?.['langchain.link.type'], 'generation');
+  });
+
+  it('does not treat string parsers as structured output', async () => {
+    harness = new LangChainTestHarness();
+    await new FakeChatModel().pipe(new StringOutputParser()).invoke('hi', { callbacks: harness.callbacks });
+
+    const [parser] = harness.getSpansByName('chain StrOutputParser');
+    assert.equal(parser.attributes['langchain.structured_output.parsed'], undefined);
+    assert.equal(parser.links.length, 0);
+  });
+});
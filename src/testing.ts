@@ -0,0 +1,497 @@
+/**
+ * Offline test support for the LangChain instrumentation: an in-memory
+ * harness, deterministic model, tool and retriever fixtures, and span tree
+ * assertions. Import it from testing.js, it is not part of the main entry
+ * point so applications do not load the SDK packages it needs. Those are
+ * optional peer dependencies, install them alongside the tests that use it.
+ */
+import { context, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { AttributeValue, Attributes } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { MeterProvider, MetricReader } from '@opentelemetry/sdk-metrics';
+import type { MetricData } from '@opentelemetry/sdk-metrics';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { BaseChatModelCallOptions, BindToolsInput } from '@langchain/core/language_models/chat_models';
+import { BaseLLM } from '@langchain/core/language_models/llms';
+import { AIMessage, AIMessageChunk } from '@langchain/core/messages';
+import type { AIMessageFields, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import type { ChatResult, LLMResult } from '@langchain/core/outputs';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { BaseRetriever } from '@langchain/core/retrievers';
+import { Document } from '@langchain/core/documents';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+import { LangChainInstrumentation } from './instrumentation.js';
+import type { OpenTelemetryCallbackHandler } from './callback-handler.js';
+import type { LangChainInstrumentationConfig } from './config.js';
+
+/**
+ * A metric reader that collects on demand
+ */
+class TestMetricReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+
+/**
+ * Wires a LangChainInstrumentation to in-memory trace and metric pipelines.
+ * Pass `callbacks` to the runnables under test, or rely on the module
+ * patching when @langchain/core is loaded after the harness.
+ */
+export class LangChainTestHarness {
+  public instrumentation: LangChainInstrumentation;
+  public spanExporter = new InMemorySpanExporter();
+  public tracerProvider: BasicTracerProvider;
+  public meterProvider: MeterProvider;
+  private metricReader = new TestMetricReader();
+  // Set when the harness registered the global context manager and must remove it
+  private contextManager?: AsyncLocalStorageContextManager;
+
+  constructor(config: LangChainInstrumentationConfig = {}) {
+    this.tracerProvider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(this.spanExporter)],
+    });
+    this.meterProvider = new MeterProvider({ readers: [this.metricReader] });
+
+    // Runs only nest under their parents when context propagates across awaits
+    const contextManager = new AsyncLocalStorageContextManager().enable();
+    if (context.setGlobalContextManager(contextManager)) {
+      this.contextManager = contextManager;
+    } else {
+      contextManager.disable();
+    }
+
+    this.instrumentation = new LangChainInstrumentation(config);
+    this.instrumentation.setTracerProvider(this.tracerProvider);
+    this.instrumentation.setMeterProvider(this.meterProvider);
+  }
+
+  public get handler(): OpenTelemetryCallbackHandler {
+    return this.instrumentation.getHandler();
+  }
+
+  /**
+   * Callbacks to pass in the RunnableConfig of the runnables under test
+   */
+  public get callbacks(): OpenTelemetryCallbackHandler[] {
+    return [this.handler];
+  }
+
+  public getFinishedSpans(): ReadableSpan[] {
+    return this.spanExporter.getFinishedSpans();
+  }
+
+  /**
+   * Spans with the given name, in the order they ended
+   */
+  public getSpansByName(name: string | RegExp): ReadableSpan[] {
+    return this.getFinishedSpans().filter((span) => _matches(span.name, name));
+  }
+
+  /**
+   * Collect every metric recorded so far
+   */
+  public async getMetrics(): Promise<MetricData[]> {
+    const { resourceMetrics } = await this.metricReader.collect();
+    return resourceMetrics.scopeMetrics.flatMap((scopeMetrics) => scopeMetrics.metrics);
+  }
+
+  public async getMetric(name: string): Promise<MetricData | undefined> {
+    return (await this.getMetrics()).find((metric) => metric.descriptor.name === name);
+  }
+
+  /**
+   * Forget the spans exported so far
+   */
+  public reset(): void {
+    this.spanExporter.reset();
+  }
+
+  /**
+   * Disable the instrumentation and release everything the harness registered
+   */
+  public async shutdown(): Promise<void> {
+    await this.instrumentation.shutdown();
+    this.instrumentation.disable();
+    await this.tracerProvider.shutdown();
+    await this.meterProvider.shutdown();
+    if (this.contextManager) {
+      context.disable();
+      this.contextManager = undefined;
+    }
+  }
+}
+
+/**
+ * Token usage reported by the fake models for every call
+ */
+export interface FakeUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const DEFAULT_FAKE_USAGE: FakeUsage = { inputTokens: 10, outputTokens: 5 };
+
+export interface FakeChatModelOptions {
+  // Replies in order, repeating the last one once they run out
+  responses?: Array<string | AIMessageFields>;
+  model?: string;
+  // Reported as ls_provider, which selects the provider adapter
+  provider?: string;
+  usage?: FakeUsage;
+  temperature?: number;
+  // Thrown by every call instead of replying
+  error?: Error;
+}
+
+interface FakeChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: Record<string, any>[];
+}
+
+/**
+ * A chat model with scripted replies. Replies may carry tool calls, and
+ * streaming yields one chunk per word.
+ */
+export class FakeChatModel extends BaseChatModel<FakeChatModelCallOptions> {
+  public responses: Array<string | AIMessageFields>;
+  public model: string;
+  public provider: string;
+  public usage: FakeUsage;
+  public temperature?: number;
+  public error?: Error;
+  private callCount = 0;
+
+  constructor(options: FakeChatModelOptions = {}) {
+    super({});
+    this.responses = options.responses ?? ['fake response'];
+    this.model = options.model ?? 'fake-chat-model';
+    this.provider = options.provider ?? 'fake';
+    this.usage = options.usage ?? DEFAULT_FAKE_USAGE;
+    this.temperature = options.temperature;
+    this.error = options.error;
+  }
+
+  static lc_name(): string {
+    return 'FakeChatModel';
+  }
+
+  _llmType(): string {
+    return 'fake';
+  }
+
+  override invocationParams(options?: this['ParsedCallOptions']): Record<string, any> {
+    return { model: this.model, temperature: this.temperature, tools: options?.tools };
+  }
+
+  override getLsParams(options: this['ParsedCallOptions']) {
+    return {
+      ls_provider: this.provider,
+      ls_model_name: this.model,
+      ls_model_type: 'chat' as const,
+      ls_temperature: this.temperature,
+      ...(options?.stop ? { ls_stop: options.stop } : {}),
+    };
+  }
+
+  override bindTools(tools: BindToolsInput[], kwargs?: Partial<FakeChatModelCallOptions>) {
+    return this.withConfig({ ...kwargs, tools: tools.map((tool) => convertToOpenAITool(tool as any)) });
+  }
+
+  private _nextMessage(): AIMessage {
+    if (this.error) {
+      throw this.error;
+    }
+    const response = this.responses[Math.min(this.callCount, this.responses.length - 1)];
+    this.callCount += 1;
+    const fields: AIMessageFields = typeof response === 'string' ? { content: response } : response;
+    const hasToolCalls = (fields.tool_calls?.length ?? 0) > 0;
+    return new AIMessage({
+      ...fields,
+      id: fields.id ?? `fake-${this.callCount}`,
+      response_metadata: {
+        model_name: this.model,
+        finish_reason: hasToolCalls ? 'tool_calls' : 'stop',
+        ...fields.response_metadata,
+      },
+      usage_metadata: {
+        input_tokens: this.usage.inputTokens,
+        output_tokens: this.usage.outputTokens,
+        total_tokens: this.usage.inputTokens + this.usage.outputTokens,
+      },
+    });
+  }
+
+  async _generate(_messages: BaseMessage[]): Promise<ChatResult> {
+    const message = this._nextMessage();
+    return { generations: [{ text: typeof message.content === 'string' ? message.content : '', message }] };
+  }
+
+  async *_streamResponseChunks(
+    _messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this._nextMessage();
+    const text = typeof message.content === 'string' ? message.content : '';
+    const words = text.split(/(?<=\s)/).filter((word) => word !== '');
+    for (const [index, word] of words.entries()) {
+      const last = index === words.length - 1;
+      const chunk = new ChatGenerationChunk({
+        text: word,
+        message: new AIMessageChunk({
+          content: word,
+          id: message.id,
+          tool_call_chunks: last
+            ? message.tool_calls?.map((call, i) => ({
+              id: call.id, name: call.name, args: JSON.stringify(call.args), index: i,
+            }))
+            : undefined,
+          response_metadata: last ? message.response_metadata : {},
+          usage_metadata: last ? message.usage_metadata : undefined,
+        }),
+      });
+      yield chunk;
+      await runManager?.handleLLMNewToken(word, undefined, undefined, undefined, undefined, { chunk });
+    }
+  }
+}
+
+export interface FakeLLMOptions {
+  responses?: string[];
+  model?: string;
+  usage?: FakeUsage;
+  error?: Error;
+}
+
+/**
+ * A text completion model with scripted replies, reporting usage the legacy
+ * way through llmOutput
+ */
+export class FakeLLM extends BaseLLM {
+  public responses: string[];
+  public model: string;
+  public usage: FakeUsage;
+  public error?: Error;
+  private callCount = 0;
+
+  constructor(options: FakeLLMOptions = {}) {
+    super({});
+    this.responses = options.responses ?? ['fake completion'];
+    this.model = options.model ?? 'fake-llm';
+    this.usage = options.usage ?? DEFAULT_FAKE_USAGE;
+    this.error = options.error;
+  }
+
+  static lc_name(): string {
+    return 'FakeLLM';
+  }
+
+  _llmType(): string {
+    return 'fake';
+  }
+
+  override invocationParams(): Record<string, any> {
+    return { model: this.model };
+  }
+
+  async _generate(prompts: string[]): Promise<LLMResult> {
+    if (this.error) {
+      throw this.error;
+    }
+    const generations = prompts.map(() => {
+      const text = this.responses[Math.min(this.callCount, this.responses.length - 1)];
+      this.callCount += 1;
+      return [{ text, generationInfo: { finish_reason: 'stop' } }];
+    });
+    return {
+      generations,
+      llmOutput: {
+        model_name: this.model,
+        tokenUsage: {
+          promptTokens: this.usage.inputTokens * prompts.length,
+          completionTokens: this.usage.outputTokens * prompts.length,
+        },
+      },
+    };
+  }
+}
+
+export interface FakeToolOptions {
+  name?: string;
+  description?: string;
+  // JSON schema of the arguments, not validated
+  schema?: Record<string, any>;
+  // The result, or a function computing it from the arguments
+  result?: unknown | ((input: Record<string, any>) => unknown);
+  error?: Error;
+}
+
+/**
+ * A structured tool returning a fixed or computed result
+ */
+export class FakeTool extends DynamicStructuredTool {
+  constructor(options: FakeToolOptions = {}) {
+    const result = options.result ?? 'fake tool result';
+    super({
+      name: options.name ?? 'fake_tool',
+      description: options.description ?? 'A fake tool for tests',
+      schema: options.schema ?? { type: 'object', properties: { input: { type: 'string' } } },
+      func: async (input: Record<string, any>) => {
+        if (options.error) {
+          throw options.error;
+        }
+        return typeof result === 'function' ? result(input) : result;
+      },
+    });
+  }
+}
+
+export interface FakeRetrieverOptions {
+  documents?: Array<string | Document>;
+  error?: Error;
+}
+
+/**
+ * A retriever returning the same documents for every query
+ */
+export class FakeRetriever extends BaseRetriever {
+  lc_namespace = ['langchain', 'retrievers', 'fake'];
+  public documents: Document[];
+  public error?: Error;
+
+  constructor(options: FakeRetrieverOptions = {}) {
+    super({});
+    this.documents = (options.documents ?? ['fake document']).map((document, index) =>
+      typeof document === 'string'
+        ? new Document({ pageContent: document, id: `doc-${index + 1}`, metadata: { source: `fake://${index + 1}` } })
+        : document
+    );
+    this.error = options.error;
+  }
+
+  static lc_name(): string {
+    return 'FakeRetriever';
+  }
+
+  async _getRelevantDocuments(_query: string): Promise<Document[]> {
+    if (this.error) {
+      throw this.error;
+    }
+    return this.documents;
+  }
+}
+
+/**
+ * A span expected by expectSpanTree. Attributes are matched as a subset, and
+ * when children are given they must match the actual children exactly, in
+ * start order.
+ */
+export interface ExpectedSpan {
+  name: string | RegExp;
+  kind?: SpanKind;
+  status?: SpanStatusCode;
+  attributes?: Record<string, AttributeValue | RegExp>;
+  children?: ExpectedSpan[];
+}
+
+function _matches(actual: string, expected: string | RegExp): boolean {
+  return typeof expected === 'string' ? actual === expected : expected.test(actual);
+}
+
+function _attributeMatches(actual: AttributeValue | undefined, expected: AttributeValue | RegExp): boolean {
+  if (expected instanceof RegExp) {
+    return typeof actual === 'string' && expected.test(actual);
+  }
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+function _byStartTime(a: ReadableSpan, b: ReadableSpan): number {
+  return a.startTime[0] - b.startTime[0] || a.startTime[1] - b.startTime[1];
+}
+
+function _childrenOf(spans: ReadableSpan[], parent: ReadableSpan | undefined): ReadableSpan[] {
+  const spanIds = new Set(spans.map((span) => span.spanContext().spanId));
+  return spans
+    .filter((span) => {
+      const parentId = span.parentSpanContext?.spanId;
+      return parent
+        ? parentId === parent.spanContext().spanId
+        : parentId === undefined || !spanIds.has(parentId);
+    })
+    .sort(_byStartTime);
+}
+
+/**
+ * Render spans as an indented tree, for assertion messages and debugging
+ */
+export function formatSpanTree(spans: ReadableSpan[]): string {
+  const lines: string[] = [];
+  const render = (span: ReadableSpan, depth: number) => {
+    const status = span.status.code === SpanStatusCode.ERROR ? ' [error]' : '';
+    lines.push(`${'  '.repeat(depth)}${span.name} (${SpanKind[span.kind]})${status}`);
+    _childrenOf(spans, span).forEach((child) => render(child, depth + 1));
+  };
+  _childrenOf(spans, undefined).forEach((root) => render(root, 0));
+  return lines.join('\n');
+}
+
+function _describeMismatch(span: ReadableSpan, expected: ExpectedSpan): string | undefined {
+  if (!_matches(span.name, expected.name)) {
+    return `expected name ${String(expected.name)} but got "${span.name}"`;
+  }
+  if (expected.kind !== undefined && span.kind !== expected.kind) {
+    return `expected kind ${SpanKind[expected.kind]} but got ${SpanKind[span.kind]}`;
+  }
+  if (expected.status !== undefined && span.status.code !== expected.status) {
+    return `expected status ${SpanStatusCode[expected.status]} but got ${SpanStatusCode[span.status.code]}`;
+  }
+  for (const [key, value] of Object.entries(expected.attributes ?? {})) {
+    if (!_attributeMatches(span.attributes[key], value)) {
+      return `expected attribute ${key}=${String(value)} but got ${JSON.stringify(span.attributes[key])}`;
+    }
+  }
+  return undefined;
+}
+
+function _assertSpans(
+  spans: ReadableSpan[],
+  actual: ReadableSpan[],
+  expected: ExpectedSpan[],
+  path: string
+): void {
+  if (actual.length !== expected.length) {
+    throw new Error(`${path}: expected ${expected.length} span(s) but got ${actual.length}`);
+  }
+  actual.forEach((span, index) => {
+    const spanPath = `${path}/${span.name}`;
+    const mismatch = _describeMismatch(span, expected[index]);
+    if (mismatch) {
+      throw new Error(`${spanPath}: ${mismatch}`);
+    }
+    if (expected[index].children) {
+      _assertSpans(spans, _childrenOf(spans, span), expected[index].children!, spanPath);
+    }
+  });
+}
+
+/**
+ * Assert that finished spans form the expected trees, throwing an error that
+ * shows the actual tree otherwise. Works with any test framework.
+ */
+export function expectSpanTree(spans: ReadableSpan[], expected: ExpectedSpan | ExpectedSpan[]): void {
+  try {
+    _assertSpans(spans, _childrenOf(spans, undefined), Array.isArray(expected) ? expected : [expected], '');
+  } catch (error) {
+    throw new Error(`Span tree mismatch at ${(error as Error).message}\nActual spans:\n${formatSpanTree(spans)}`);
+  }
+}
+
+/**
+ * Attributes of the first span with the given name, for targeted assertions
+ */
+export function getSpanAttributes(spans: ReadableSpan[], name: string | RegExp): Attributes | undefined {
+  return spans.find((span) => _matches(span.name, name))?.attributes;
+}
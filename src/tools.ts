@@ -0,0 +1,156 @@
+/**
+ * What a tool span records about the tool, read from the tool instance
+ */
+export interface ToolInfo {
+  name?: string;
+  description?: string;
+  returnDirect?: boolean;
+}
+
+/**
+ * The tool call a run was started for, when the tool was invoked with one
+ */
+export interface ToolCallInput {
+  id?: string;
+  name?: string;
+  args?: Record<string, any>;
+}
+
+/**
+ * What a ToolMessage returned by a tool carries besides its content
+ */
+export interface ToolMessageInfo {
+  toolCallId?: string;
+  status?: string;
+  artifact?: unknown;
+}
+
+/**
+ * Classification of tool failures recorded as error.type
+ */
+export enum ToolErrorTypeValues {
+  VALIDATION = 'validation_error',
+  TIMEOUT = 'timeout',
+  EXCEPTION = 'exception',
+}
+
+/**
+ * Values of gen_ai.tool.type
+ */
+export enum GenAIToolTypeValues {
+  FUNCTION = 'function',
+  EXTENSION = 'extension',
+  DATASTORE = 'datastore',
+}
+
+const TOOL_INSTANCE_KEY = Symbol('opentelemetry.langchain.tool');
+
+type AnyFunction = (...args: any[]) => any;
+
+/**
+ * Wrap StructuredTool.toJSON, whose result is what handleToolStart receives,
+ * so the handler can reach the tool instance behind it
+ */
+export function wrapToolToJSON(original: AnyFunction): AnyFunction {
+  return function (this: unknown, ...args: any[]) {
+    const serialized = original.apply(this, args);
+    if (serialized && typeof serialized === 'object' && !Object.isFrozen(serialized)) {
+      Object.defineProperty(serialized, TOOL_INSTANCE_KEY, { value: this, configurable: true });
+    }
+    return serialized;
+  };
+}
+
+/**
+ * Details of the tool behind a serialized tool, when the instrumentation
+ * patched its class
+ */
+export function getToolInfo(serialized: any): ToolInfo | undefined {
+  const tool = serialized?.[TOOL_INSTANCE_KEY];
+  if (!tool) {
+    return undefined;
+  }
+  return {
+    name: typeof tool.name === 'string' ? tool.name : undefined,
+    description: typeof tool.description === 'string' ? tool.description : undefined,
+    returnDirect: typeof tool.returnDirect === 'boolean' ? tool.returnDirect : undefined,
+  };
+}
+
+type ToJsonSchema = (schema: unknown) => unknown;
+
+// Loaded on first use, @langchain/core releases before 0.3 do not ship it
+let toJsonSchemaLoader: Promise<ToJsonSchema | undefined> | undefined;
+
+function _loadToJsonSchema(): Promise<ToJsonSchema | undefined> {
+  toJsonSchemaLoader ??= import('@langchain/core/utils/json_schema').then(
+    (module) => module.toJsonSchema as ToJsonSchema,
+    () => undefined
+  );
+  return toJsonSchemaLoader;
+}
+
+/**
+ * The argument schema of the tool behind a serialized tool, as JSON schema.
+ * Zod schemas cannot be converted without the LangChain helper.
+ */
+export async function getToolArgsSchema(serialized: any): Promise<Record<string, any> | undefined> {
+  const schema = serialized?.[TOOL_INSTANCE_KEY]?.schema;
+  if (!schema || typeof schema !== 'object') {
+    return undefined;
+  }
+  const toJsonSchema = await _loadToJsonSchema();
+  if (toJsonSchema) {
+    return toJsonSchema(schema) as Record<string, any>;
+  }
+  return '_def' in schema ? undefined : schema;
+}
+
+/**
+ * Tools invoked with a ToolCall report the whole call, JSON encoded, as their input
+ */
+export function getToolCallFromInput(input: string): ToolCallInput | undefined {
+  if (typeof input !== 'string' || !input.startsWith('{')) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(input);
+    if (parsed?.type === 'tool_call' || (typeof parsed?.id === 'string' && parsed?.args !== undefined)) {
+      return { id: parsed.id, name: parsed.name, args: parsed.args };
+    }
+  } catch {
+    // Plain JSON input or not JSON at all
+  }
+  return undefined;
+}
+
+export function getToolMessageInfo(output: any): ToolMessageInfo | undefined {
+  if (!output || typeof output !== 'object' || typeof output.tool_call_id !== 'string') {
+    return undefined;
+  }
+  return { toolCallId: output.tool_call_id, status: output.status, artifact: output.artifact };
+}
+
+/**
+ * The tool type from the run metadata, tools are functions unless they say otherwise
+ */
+export function getToolType(metadata: Record<string, any> = {}): string {
+  const type = metadata.tool_type;
+  return Object.values(GenAIToolTypeValues).includes(type) ? type : GenAIToolTypeValues.FUNCTION;
+}
+
+const VALIDATION_ERROR_NAMES = ['ToolInputParsingException', 'ZodError', 'ValidationError'];
+const TIMEOUT_ERROR_NAMES = ['TimeoutError', 'ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+
+export function classifyToolError(error: any): ToolErrorTypeValues {
+  // Some LangChain errors keep the default Error name, their class tells them apart
+  const names = [error?.name, error?.constructor?.name];
+  if (names.some((name) => VALIDATION_ERROR_NAMES.includes(name))) {
+    return ToolErrorTypeValues.VALIDATION;
+  }
+  if (names.some((name) => TIMEOUT_ERROR_NAMES.includes(name)) || TIMEOUT_ERROR_NAMES.includes(error?.code) ||
+      /timed? ?out/i.test(String(error?.message ?? ''))) {
+    return ToolErrorTypeValues.TIMEOUT;
+  }
+  return ToolErrorTypeValues.EXCEPTION;
+}